@@ -0,0 +1,9 @@
+-- Key-value entries of the d1 storage backend, keyed like the KV namespace ("<prefix>:<id>")
+CREATE TABLE IF NOT EXISTS entries (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  -- Expiry time in milliseconds, NULL for entries without TTL
+  expires_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS entries_expires_at ON entries (expires_at) WHERE expires_at IS NOT NULL;
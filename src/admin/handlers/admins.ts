@@ -0,0 +1,246 @@
+import type { AdminPrincipal } from '@/shared/types';
+import { errorResponse, successResponse } from '@/shared/utils/response';
+
+import {
+  ADMIN_ROLES,
+  createAdminPrincipal,
+  deleteAdminPrincipal,
+  getAdminPrincipal,
+  listAdminPrincipals,
+  updateAdminPrincipal,
+} from '../services/admin';
+import { recordAudit } from '../services/audit';
+import { type AdminRoute, defineRoute } from '../utils/router';
+import { SUCCESS_SCHEMA } from '../utils/schemas';
+import type { JsonSchema } from '../utils/validation';
+
+/**
+ * Validates admin principal values
+ * @param config The admin principal values to validate
+ * @param principal The admin making the change, who can only grant roles they hold
+ * @param isUpdate Whether this is for an update operation (different required fields)
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateAdminPrincipal(config: Partial<AdminPrincipal>, principal: AdminPrincipal, isUpdate = false): string | null {
+  // Validate required fields for creation
+  if (!isUpdate) {
+    if (!config.name) {
+      return 'Name is required';
+    }
+
+    if (!config.roles) {
+      return 'Roles are required';
+    }
+  }
+
+  // Validate name if present
+  if (config.name !== undefined && (typeof config.name !== 'string' || !config.name)) {
+    return 'Name must be a non-empty string';
+  }
+
+  // Validate roles if present
+  if (config.roles !== undefined) {
+    if (!Array.isArray(config.roles)) {
+      return 'Roles must be a list';
+    }
+
+    const unknownRole = config.roles.find((role) => !ADMIN_ROLES.includes(role));
+    if (unknownRole !== undefined) {
+      return `Unknown role ${unknownRole}, roles must be among ${ADMIN_ROLES.join(', ')}`;
+    }
+
+    const ungrantedRole = config.roles.find((role) => !principal.roles.includes(role));
+    if (ungrantedRole !== undefined) {
+      return `Cannot grant role ${ungrantedRole} without holding it`;
+    }
+  }
+
+  // Validate active field if present
+  if (config.active !== undefined && typeof config.active !== 'boolean') {
+    return 'Active must be a boolean';
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Check that an admin may change or delete another admin, which requires holding every role of that admin
+ * @param principal The admin making the change
+ * @param target The admin being changed or deleted
+ * @returns Error message if the change is not allowed, null if it is
+ */
+function checkAdminManageable(principal: AdminPrincipal, target: AdminPrincipal): string | null {
+  const unheldRole = target.roles.find((role) => !principal.roles.includes(role));
+  if (unheldRole !== undefined) {
+    return `Cannot manage an admin holding role ${unheldRole} without holding it`;
+  }
+
+  return null;
+}
+
+const ADMIN_PRINCIPAL_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    roles: { type: 'array', items: { type: 'string', enum: ADMIN_ROLES } },
+    active: { type: 'boolean' },
+    createdAt: { type: 'integer' },
+  },
+};
+
+const ROLES_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: { type: 'string', enum: ADMIN_ROLES },
+  description: 'Roles to grant, which the requesting admin must hold',
+};
+
+const ADMIN_NOT_FOUND = { description: 'Admin not found' };
+
+/**
+ * Admin principal management routes
+ */
+export const adminRoutes: AdminRoute<unknown>[] = [
+  // Get an admin principal
+  defineRoute({
+    method: 'GET',
+    path: '/admin/admins/:id',
+    summary: 'Get an admin',
+    tag: 'Admins',
+    role: 'admins:read',
+    responses: { 200: { description: 'The admin', schema: ADMIN_PRINCIPAL_SCHEMA }, 404: ADMIN_NOT_FOUND },
+    async handle({ env, params }) {
+      const adminPrincipal = await getAdminPrincipal(params.id, env);
+      if (!adminPrincipal) {
+        return errorResponse(404, 'Admin not found');
+      }
+
+      return successResponse(adminPrincipal);
+    },
+  }),
+
+  // Update an admin principal
+  defineRoute<Pick<AdminPrincipal, 'name' | 'roles' | 'active'>>({
+    method: 'PUT',
+    path: '/admin/admins/:id',
+    summary: 'Update an admin',
+    tag: 'Admins',
+    role: 'admins:write',
+    body: {
+      type: 'object',
+      properties: { name: { type: 'string', minLength: 1 }, roles: ROLES_SCHEMA, active: { type: 'boolean' } },
+    },
+    responses: { 200: { description: 'The updated admin', schema: ADMIN_PRINCIPAL_SCHEMA }, 404: ADMIN_NOT_FOUND },
+    async handle({ env, context, params, body: updates }) {
+      const adminId = params.id;
+
+      // Validate the request body
+      const validationError = validateAdminPrincipal(updates, context.principal, true);
+      if (validationError) {
+        return errorResponse(400, validationError);
+      }
+
+      const currentPrincipal = await getAdminPrincipal(adminId, env);
+      if (!currentPrincipal) {
+        return errorResponse(404, 'Admin not found');
+      }
+
+      const manageError = checkAdminManageable(context.principal, currentPrincipal);
+      if (manageError) {
+        return errorResponse(403, manageError);
+      }
+
+      const updatedPrincipal = await updateAdminPrincipal(adminId, updates, env);
+      if (!updatedPrincipal) {
+        return errorResponse(404, 'Admin not found');
+      }
+
+      await recordAudit(context, 'admin.update', { type: 'admin', id: adminId }, currentPrincipal, updatedPrincipal, env);
+      return successResponse(updatedPrincipal);
+    },
+  }),
+
+  // Delete an admin principal
+  defineRoute({
+    method: 'DELETE',
+    path: '/admin/admins/:id',
+    summary: 'Delete an admin',
+    tag: 'Admins',
+    role: 'admins:write',
+    responses: { 200: { description: 'The admin was deleted', schema: SUCCESS_SCHEMA }, 404: ADMIN_NOT_FOUND },
+    async handle({ env, context, params }) {
+      const adminId = params.id;
+      const currentPrincipal = await getAdminPrincipal(adminId, env);
+      if (!currentPrincipal) {
+        return errorResponse(404, 'Admin not found');
+      }
+
+      const manageError = checkAdminManageable(context.principal, currentPrincipal);
+      if (manageError) {
+        return errorResponse(403, manageError);
+      }
+
+      const success = await deleteAdminPrincipal(adminId, env);
+      if (!success) {
+        return errorResponse(404, 'Admin not found');
+      }
+
+      await recordAudit(context, 'admin.delete', { type: 'admin', id: adminId }, currentPrincipal, null, env);
+      return successResponse({ success });
+    },
+  }),
+
+  // List admin principals
+  defineRoute({
+    method: 'GET',
+    path: '/admin/admins',
+    summary: 'List admins',
+    tag: 'Admins',
+    role: 'admins:read',
+    responses: {
+      200: {
+        description: 'Every admin',
+        schema: { type: 'object', properties: { admins: { type: 'array', items: ADMIN_PRINCIPAL_SCHEMA } } },
+      },
+    },
+    async handle({ env }) {
+      const admins = await listAdminPrincipals(env);
+      return successResponse({ admins });
+    },
+  }),
+
+  // Create a new admin principal
+  defineRoute<Pick<AdminPrincipal, 'name' | 'roles'>>({
+    method: 'POST',
+    path: '/admin/admins',
+    summary: 'Create an admin',
+    tag: 'Admins',
+    role: 'admins:write',
+    body: {
+      type: 'object',
+      properties: { name: { type: 'string', minLength: 1 }, roles: ROLES_SCHEMA },
+      required: ['name', 'roles'],
+    },
+    responses: {
+      201: {
+        description: 'The created admin and its admin API key, the only time the key is returned',
+        schema: {
+          ...ADMIN_PRINCIPAL_SCHEMA,
+          properties: { ...ADMIN_PRINCIPAL_SCHEMA.properties, adminKey: { type: 'string' } },
+        },
+      },
+    },
+    async handle({ env, context, body: options }) {
+      // Validate the request body
+      const validationError = validateAdminPrincipal(options, context.principal);
+      if (validationError) {
+        return errorResponse(400, validationError);
+      }
+
+      const result = await createAdminPrincipal({ name: options.name, roles: options.roles }, env);
+      await recordAudit(context, 'admin.create', { type: 'admin', id: result.id }, null, result, env);
+      return successResponse(result, 201);
+    },
+  }),
+];
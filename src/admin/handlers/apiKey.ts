@@ -1,7 +1,38 @@
+import { getQuotaKeyId, getQuotaTracker } from '@/shared/durable/quotaTracker';
 import type { ApiKeyConfig } from '@/shared/types';
 import { errorResponse, successResponse } from '@/shared/utils/response';
 
-import { createApiKeyConfig, deleteApiKeyConfig, getApiKeyConfig, updateApiKeyConfig } from '../services/apiKey';
+import {
+  createApiKeyConfig,
+  deleteApiKeyConfig,
+  getApiKeyConfig,
+  listApiKeyConfigs,
+  migrateLegacyApiKeyConfigs,
+  rotateApiKeyConfig,
+  updateApiKeyConfig,
+} from '../services/apiKey';
+import { recordAudit } from '../services/audit';
+import { type AdminRoute, defineRoute } from '../utils/router';
+import {
+  API_KEY_LIST_QUERY,
+  API_KEY_LIST_SCHEMA,
+  API_KEY_SCHEMA,
+  NEW_API_KEY_SCHEMA,
+  nullable,
+  QUOTA_SCHEMA,
+  RATE_LIMIT_SCHEMA,
+  RESTRICTIONS_SCHEMA,
+  SUCCESS_SCHEMA,
+  TARGET_IDS_SCHEMA,
+} from '../utils/schemas';
+import {
+  type JsonSchema,
+  parseApiKeyListQuery,
+  validateClientId,
+  validateQuotaConfig,
+  validateRateLimitConfig,
+  validateRestrictions,
+} from '../utils/validation';
 
 /**
  * Validates API key configuration values
@@ -16,8 +47,8 @@ function validateApiKeyConfig(config: Partial<ApiKeyConfig>, isUpdate = false):
       return 'Client ID is required';
     }
 
-    if (!config.targetId) {
-      return 'Target ID is required';
+    if (!config.targetId && !config.targetIds) {
+      return 'Target IDs are required';
     }
 
     if (!config.expiresAt) {
@@ -25,6 +56,30 @@ function validateApiKeyConfig(config: Partial<ApiKeyConfig>, isUpdate = false):
     }
   }
 
+  // Validate clientId if present
+  if (config.clientId !== undefined) {
+    const clientIdError = validateClientId(config.clientId);
+    if (clientIdError) {
+      return clientIdError;
+    }
+  }
+
+  // Validate targetId if present
+  if (config.targetId !== undefined && (typeof config.targetId !== 'string' || !config.targetId)) {
+    return 'Target ID must be a non-empty string';
+  }
+
+  // Validate targetIds if present
+  if (config.targetIds !== undefined && config.targetIds !== '*') {
+    if (!Array.isArray(config.targetIds) || !config.targetIds.length) {
+      return "Target IDs must be '*' or a non-empty list of target IDs";
+    }
+
+    if (config.targetIds.some((targetId) => typeof targetId !== 'string' || !targetId)) {
+      return 'Target IDs must be non-empty strings';
+    }
+  }
+
   // Validate active field if present
   if (config.active !== undefined && typeof config.active !== 'boolean') {
     return 'Active must be a boolean';
@@ -54,70 +109,288 @@ function validateApiKeyConfig(config: Partial<ApiKeyConfig>, isUpdate = false):
     }
   }
 
+  // Validate rateLimit if present
+  const rateLimitError = validateRateLimitConfig(config.rateLimit);
+  if (rateLimitError) {
+    return rateLimitError;
+  }
+
+  // Validate quota if present
+  const quotaError = validateQuotaConfig(config.quota);
+  if (quotaError) {
+    return quotaError;
+  }
+
+  // Validate restrictions if present
+  const restrictionsError = validateRestrictions(config.restrictions);
+  if (restrictionsError) {
+    return restrictionsError;
+  }
+
   // Validation passed
   return null;
 }
 
+// Default and maximum time a rotated key keeps working, in seconds
+const DEFAULT_ROTATION_GRACE_PERIOD = 86400; // 1 day
+const MAX_ROTATION_GRACE_PERIOD = 2592000; // 30 days
+
 /**
- * Handle API Key management requests
+ * Validates a rotation grace period
+ * @param gracePeriod The grace period in seconds
+ * @returns Error message if validation fails, null if validation passes
  */
-export async function handleApiKeyRequest(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
-  const path = url.pathname;
-  const method = request.method;
-
-  try {
-    // Check if the path has a valid format for a single API key /admin/api-keys/:id
-    if (path.match(/^\/admin\/api-keys\/[^\/]+$/)) {
-      const apiKeyId = path.split('/').pop();
-      if (!apiKeyId) {
-        return errorResponse(400, 'Invalid API Key ID');
+function validateGracePeriod(gracePeriod: number): string | null {
+  if (typeof gracePeriod !== 'number' || !Number.isInteger(gracePeriod)) {
+    return 'Grace period must be an integer number of seconds';
+  }
+
+  if (gracePeriod < 0 || gracePeriod > MAX_ROTATION_GRACE_PERIOD) {
+    return 'Grace period must be between 0 and 30 days';
+  }
+
+  // Validation passed
+  return null;
+}
+
+const API_KEY_CONFIG_PROPERTIES = {
+  targetIds: TARGET_IDS_SCHEMA,
+  expiresAt: { type: ['integer', 'string'], description: 'Expiry as milliseconds or a date string, within a year' },
+  rateLimit: nullable(RATE_LIMIT_SCHEMA),
+  quota: nullable(QUOTA_SCHEMA),
+  restrictions: nullable(RESTRICTIONS_SCHEMA),
+} satisfies Record<string, JsonSchema>;
+
+const CREATE_API_KEY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { clientId: { type: 'string', minLength: 1 }, targetId: { type: 'string', minLength: 1 }, ...API_KEY_CONFIG_PROPERTIES },
+  required: ['clientId', 'expiresAt'],
+};
+
+const UPDATE_API_KEY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { active: { type: 'boolean' }, ...API_KEY_CONFIG_PROPERTIES },
+};
+
+const ROTATE_API_KEY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    gracePeriod: {
+      type: 'integer',
+      minimum: 0,
+      maximum: MAX_ROTATION_GRACE_PERIOD,
+      description: 'Seconds the old key keeps working (default 1 day)',
+    },
+  },
+};
+
+const API_KEY_NOT_FOUND = { description: 'API Key not found' };
+
+/**
+ * API Key management routes
+ */
+export const apiKeyRoutes: AdminRoute<unknown>[] = [
+  // Move legacy plaintext-keyed records to hashed storage
+  defineRoute({
+    method: 'POST',
+    path: '/admin/api-keys/migrate',
+    summary: 'Migrate legacy API key records to hashed storage',
+    tag: 'API Keys',
+    role: 'keys:write',
+    responses: {
+      200: {
+        description: 'Migrated and reindexed key IDs',
+        schema: {
+          type: 'object',
+          properties: { migrated: { type: 'array', items: { type: 'string' } }, reindexed: { type: 'array', items: { type: 'string' } } },
+        },
+      },
+    },
+    async handle({ env, context }) {
+      const result = await migrateLegacyApiKeyConfigs(env);
+      await recordAudit(context, 'api-key.migrate', { type: 'api-key', id: '*' }, null, result, env);
+      return successResponse(result);
+    },
+  }),
+
+  // Issue a replacement key, keeping the old one valid for a grace period
+  defineRoute<{ gracePeriod?: number }>({
+    method: 'POST',
+    path: '/admin/api-keys/:id/rotate',
+    summary: 'Rotate an API key',
+    tag: 'API Keys',
+    role: 'keys:write',
+    body: ROTATE_API_KEY_SCHEMA,
+    optionalBody: true,
+    responses: {
+      201: {
+        description: 'The replacement key and the rotated key',
+        schema: { type: 'object', properties: { newKey: NEW_API_KEY_SCHEMA, oldKey: API_KEY_SCHEMA } },
+      },
+      404: API_KEY_NOT_FOUND,
+      409: { description: 'API Key already rotated' },
+    },
+    async handle({ env, context, params, body }) {
+      const apiKeyId = params.id;
+      const { gracePeriod = DEFAULT_ROTATION_GRACE_PERIOD } = body;
+
+      const validationError = validateGracePeriod(gracePeriod);
+      if (validationError) {
+        return errorResponse(400, validationError);
       }
 
-      // Get an API key config
-      if (method === 'GET') {
-        const apiKeyConfig = await getApiKeyConfig(apiKeyId, env);
-        if (!apiKeyConfig) {
-          return errorResponse(404, 'API Key not found');
-        }
+      const currentApiKeyConfig = await getApiKeyConfig(apiKeyId, env);
+      if (!currentApiKeyConfig) {
+        return errorResponse(404, 'API Key not found');
+      }
 
-        return successResponse(apiKeyConfig);
+      if (currentApiKeyConfig.rotatedTo) {
+        return errorResponse(409, `API Key has already been rotated to ${currentApiKeyConfig.rotatedTo}`);
       }
 
-      // Update an API key config
-      if (method === 'PUT') {
-        const newApiKeyConfig = (await request.json()) as Pick<ApiKeyConfig, 'active' | 'expiresAt'>;
+      const result = await rotateApiKeyConfig(apiKeyId, gracePeriod * 1000, env);
+      if (!result) {
+        return errorResponse(404, 'API Key not found');
+      }
 
-        // Validate the request body
-        const validationError = validateApiKeyConfig(newApiKeyConfig, true);
-        if (validationError) {
-          return errorResponse(400, validationError);
-        }
+      await recordAudit(context, 'api-key.rotate', { type: 'api-key', id: apiKeyId }, currentApiKeyConfig, result, env);
+      return successResponse(result, 201);
+    },
+  }),
 
-        // Update the API key config
-        const updatedApiKeyConfig = await updateApiKeyConfig(apiKeyId, newApiKeyConfig, env);
-        if (!updatedApiKeyConfig) {
-          return errorResponse(404, 'API Key not found');
-        }
+  // Get the usage of the current quota periods
+  defineRoute({
+    method: 'GET',
+    path: '/admin/api-keys/:id/quota',
+    summary: 'Get the quota usage of an API key',
+    tag: 'API Keys',
+    role: 'keys:read',
+    responses: {
+      200: {
+        description: 'The quota and the usage of its current periods, null without a quota',
+        schema: {
+          type: 'object',
+          properties: { keyId: { type: 'string' }, quota: nullable(QUOTA_SCHEMA), usage: { type: ['object', 'null'] } },
+        },
+      },
+      404: API_KEY_NOT_FOUND,
+    },
+    async handle({ env, params }) {
+      const apiKeyId = params.id;
+      const apiKeyConfig = await getApiKeyConfig(apiKeyId, env);
+      if (!apiKeyConfig) {
+        return errorResponse(404, 'API Key not found');
+      }
 
-        return successResponse(updatedApiKeyConfig);
+      const { quota } = apiKeyConfig;
+      if (!quota || (!quota.daily && !quota.monthly)) {
+        return successResponse({ keyId: apiKeyId, quota: null, usage: null });
       }
 
-      // Delete an API key config
-      if (method === 'DELETE') {
-        const success = await deleteApiKeyConfig(apiKeyId, env);
-        if (!success) {
-          return errorResponse(404, 'API Key not found');
-        }
+      const usage = await getQuotaTracker(getQuotaKeyId(apiKeyConfig), env).getUsage(quota);
+      return successResponse({ keyId: apiKeyId, quota, usage });
+    },
+  }),
 
-        return successResponse({ success });
+  // Get an API key config, by its non-secret key ID (never the key itself)
+  defineRoute({
+    method: 'GET',
+    path: '/admin/api-keys/:id',
+    summary: 'Get an API key',
+    tag: 'API Keys',
+    role: 'keys:read',
+    responses: { 200: { description: 'The API key config', schema: API_KEY_SCHEMA }, 404: API_KEY_NOT_FOUND },
+    async handle({ env, params }) {
+      const apiKeyConfig = await getApiKeyConfig(params.id, env);
+      if (!apiKeyConfig) {
+        return errorResponse(404, 'API Key not found');
+      }
+
+      return successResponse(apiKeyConfig);
+    },
+  }),
+
+  // Update an API key config
+  defineRoute<Pick<ApiKeyConfig, 'active' | 'expiresAt' | 'targetIds' | 'rateLimit' | 'quota' | 'restrictions'>>({
+    method: 'PUT',
+    path: '/admin/api-keys/:id',
+    summary: 'Update an API key',
+    tag: 'API Keys',
+    role: 'keys:write',
+    body: UPDATE_API_KEY_SCHEMA,
+    responses: { 200: { description: 'The updated API key config', schema: API_KEY_SCHEMA }, 404: API_KEY_NOT_FOUND },
+    async handle({ env, context, params, body: newApiKeyConfig }) {
+      const apiKeyId = params.id;
+
+      // Validate the request body
+      const validationError = validateApiKeyConfig(newApiKeyConfig, true);
+      if (validationError) {
+        return errorResponse(400, validationError);
+      }
+
+      // Update the API key config
+      const currentApiKeyConfig = await getApiKeyConfig(apiKeyId, env);
+      const updatedApiKeyConfig = await updateApiKeyConfig(apiKeyId, newApiKeyConfig, env);
+      if (!updatedApiKeyConfig) {
+        return errorResponse(404, 'API Key not found');
+      }
+
+      await recordAudit(context, 'api-key.update', { type: 'api-key', id: apiKeyId }, currentApiKeyConfig, updatedApiKeyConfig, env);
+      return successResponse(updatedApiKeyConfig);
+    },
+  }),
+
+  // Delete an API key config
+  defineRoute({
+    method: 'DELETE',
+    path: '/admin/api-keys/:id',
+    summary: 'Delete an API key',
+    tag: 'API Keys',
+    role: 'keys:write',
+    responses: { 200: { description: 'The API key was deleted', schema: SUCCESS_SCHEMA }, 404: API_KEY_NOT_FOUND },
+    async handle({ env, context, params }) {
+      const apiKeyId = params.id;
+      const currentApiKeyConfig = await getApiKeyConfig(apiKeyId, env);
+      const success = await deleteApiKeyConfig(apiKeyId, env);
+      if (!success) {
+        return errorResponse(404, 'API Key not found');
       }
-    }
 
-    // POST /admin/api-keys - Create a new API key
-    if (method === 'POST' && path === '/admin/api-keys') {
-      const apiKeyConfig = (await request.json()) as Pick<ApiKeyConfig, 'clientId' | 'targetId' | 'expiresAt'>;
+      await recordAudit(context, 'api-key.delete', { type: 'api-key', id: apiKeyId }, currentApiKeyConfig, null, env);
+      return successResponse({ success });
+    },
+  }),
 
+  // List API keys with optional filters
+  defineRoute({
+    method: 'GET',
+    path: '/admin/api-keys',
+    summary: 'List API keys',
+    tag: 'API Keys',
+    role: 'keys:read',
+    query: API_KEY_LIST_QUERY,
+    responses: { 200: { description: 'A page of API key summaries', schema: API_KEY_LIST_SCHEMA } },
+    async handle({ env, query: searchParams }) {
+      const query = parseApiKeyListQuery(searchParams);
+      if ('error' in query) {
+        return errorResponse(400, query.error);
+      }
+
+      const result = await listApiKeyConfigs(query.filters, query.page, env);
+      return successResponse(result);
+    },
+  }),
+
+  // Create a new API key
+  defineRoute<Pick<ApiKeyConfig, 'clientId' | 'targetId' | 'targetIds' | 'expiresAt' | 'rateLimit' | 'quota' | 'restrictions'>>({
+    method: 'POST',
+    path: '/admin/api-keys',
+    summary: 'Create an API key',
+    tag: 'API Keys',
+    role: 'keys:write',
+    body: CREATE_API_KEY_SCHEMA,
+    responses: { 201: { description: 'The created key, the only time it is returned', schema: NEW_API_KEY_SCHEMA } },
+    async handle({ env, context, body: apiKeyConfig }) {
       // Validate the request body
       const validationError = validateApiKeyConfig(apiKeyConfig);
       if (validationError) {
@@ -126,13 +399,8 @@ export async function handleApiKeyRequest(request: Request, env: Env): Promise<R
 
       // Create a new API key config
       const result = await createApiKeyConfig(apiKeyConfig.clientId, apiKeyConfig, env);
+      await recordAudit(context, 'api-key.create', { type: 'api-key', id: result.keyId }, null, result, env);
       return successResponse(result, 201);
-    }
-
-    // If no route matches
-    return errorResponse(404, 'Not Found');
-  } catch (error: unknown) {
-    console.error('Error handling API key request:', error instanceof Error ? error.message : String(error));
-    return errorResponse(500, 'Internal Server Error');
-  }
-}
+    },
+  }),
+];
@@ -0,0 +1,85 @@
+import { errorResponse, successResponse } from '@/shared/utils/response';
+
+import { listAuditEntries, verifyAuditLog } from '../services/audit';
+import { type AdminRoute, defineRoute } from '../utils/router';
+import { PAGE_QUERY, TIME_RANGE_QUERY } from '../utils/schemas';
+import { type JsonSchema, parseAuditQuery } from '../utils/validation';
+
+const AUDIT_ENTRY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    seq: { type: 'integer', description: 'Position in the hash chain, starting at 1' },
+    actor: { type: 'string' },
+    action: { type: 'string', description: "Operation, e.g. 'api-key.update'" },
+    resourceType: { type: 'string' },
+    resourceId: { type: 'string' },
+    before: { description: 'Snapshot of the resource before the operation, with secrets redacted' },
+    after: { description: 'Snapshot of the resource after the operation, with secrets redacted' },
+    requestId: { type: 'string' },
+    ip: { type: ['string', 'null'] },
+    createdAt: { type: 'integer' },
+    prevHash: { type: 'string' },
+    hash: { type: 'string' },
+  },
+};
+
+/**
+ * Audit log routes
+ */
+export const auditRoutes: AdminRoute<unknown>[] = [
+  // Check that the audit log hash chain is intact
+  defineRoute({
+    method: 'GET',
+    path: '/admin/audit/verify',
+    summary: 'Verify the audit log hash chain',
+    tag: 'Audit',
+    role: 'audit:read',
+    responses: {
+      200: {
+        description: 'Whether the chain is intact, and the first broken entry if not',
+        schema: {
+          type: 'object',
+          properties: { valid: { type: 'boolean' }, checked: { type: 'integer' }, brokenAt: { type: 'integer' } },
+        },
+      },
+    },
+    async handle({ env }) {
+      const result = await verifyAuditLog(env);
+      return successResponse(result);
+    },
+  }),
+
+  // List audit entries, newest first
+  defineRoute({
+    method: 'GET',
+    path: '/admin/audit',
+    summary: 'List audit entries',
+    tag: 'Audit',
+    role: 'audit:read',
+    query: [
+      { name: 'actor', description: 'Only entries of this admin', schema: { type: 'string' } },
+      { name: 'resourceType', description: "Only entries of this resource type, e.g. 'api-key'", schema: { type: 'string' } },
+      { name: 'resourceId', description: 'Only entries of this resource', schema: { type: 'string' } },
+      ...TIME_RANGE_QUERY,
+      ...PAGE_QUERY,
+    ],
+    responses: {
+      200: {
+        description: 'A page of audit entries, newest first',
+        schema: {
+          type: 'object',
+          properties: { entries: { type: 'array', items: AUDIT_ENTRY_SCHEMA }, cursor: { type: ['string', 'null'] } },
+        },
+      },
+    },
+    async handle({ env, query: searchParams }) {
+      const query = parseAuditQuery(searchParams);
+      if ('error' in query) {
+        return errorResponse(400, query.error);
+      }
+
+      const result = await listAuditEntries(query, env);
+      return successResponse(result);
+    },
+  }),
+];
@@ -0,0 +1,121 @@
+import type { ClientConfig, CreditGrantConfig } from '@/shared/types';
+import { errorResponse, successResponse } from '@/shared/utils/response';
+
+import { listApiKeyConfigs } from '../services/apiKey';
+import { recordAudit } from '../services/audit';
+import { getClientConfig, setClientConfig } from '../services/client';
+import { type AdminRoute, defineRoute } from '../utils/router';
+import { API_KEY_LIST_QUERY, API_KEY_LIST_SCHEMA, CREDIT_GRANT_SCHEMA, nullable, RATE_LIMIT_SCHEMA } from '../utils/schemas';
+import { type JsonSchema, parseApiKeyListQuery, validateClientId, validateRateLimitConfig } from '../utils/validation';
+
+/**
+ * Validates a recurring credit grant configuration
+ * @param grant The credit grant configuration to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateCreditGrantConfig(grant: Partial<CreditGrantConfig> | undefined): string | null {
+  // Credit grants are optional
+  if (grant === undefined || grant === null) {
+    return null;
+  }
+
+  if (typeof grant !== 'object') {
+    return 'Credit grant must be an object';
+  }
+
+  if (typeof grant.amount !== 'number' || !Number.isInteger(grant.amount) || grant.amount < 1 || grant.amount > 1000000) {
+    return 'Credit grant amount must be an integer between 1 and 1,000,000';
+  }
+
+  if (grant.interval !== 'day' && grant.interval !== 'week' && grant.interval !== 'month') {
+    return "Credit grant interval must be 'day', 'week' or 'month'";
+  }
+
+  if (grant.mode !== 'reset' && grant.mode !== 'accumulate') {
+    return "Credit grant mode must be 'reset' or 'accumulate'";
+  }
+
+  // Validation passed
+  return null;
+}
+
+const CLIENT_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    clientId: { type: 'string' },
+    rateLimit: RATE_LIMIT_SCHEMA,
+    creditGrant: CREDIT_GRANT_SCHEMA,
+  },
+};
+
+/**
+ * Client management routes
+ */
+export const clientRoutes: AdminRoute<unknown>[] = [
+  // List the API keys of a client
+  defineRoute({
+    method: 'GET',
+    path: '/admin/clients/:clientId/api-keys',
+    summary: 'List the API keys of a client',
+    tag: 'Clients',
+    role: 'keys:read',
+    query: API_KEY_LIST_QUERY.filter(({ name }) => name !== 'clientId'),
+    responses: { 200: { description: 'A page of API key summaries', schema: API_KEY_LIST_SCHEMA } },
+    async handle({ env, params, query: searchParams }) {
+      const query = parseApiKeyListQuery(searchParams);
+      if ('error' in query) {
+        return errorResponse(400, query.error);
+      }
+
+      const result = await listApiKeyConfigs({ ...query.filters, clientId: params.clientId }, query.page, env);
+      return successResponse(result);
+    },
+  }),
+
+  // Get a client config
+  defineRoute({
+    method: 'GET',
+    path: '/admin/clients/:clientId',
+    summary: 'Get a client config',
+    tag: 'Clients',
+    role: 'clients:read',
+    responses: { 200: { description: 'The client config', schema: CLIENT_CONFIG_SCHEMA } },
+    async handle({ env, params: { clientId } }) {
+      const clientConfig = await getClientConfig(clientId, env);
+      return successResponse({ clientId, ...clientConfig });
+    },
+  }),
+
+  // Set a client config
+  defineRoute<ClientConfig>({
+    method: 'PUT',
+    path: '/admin/clients/:clientId',
+    summary: 'Set a client config',
+    tag: 'Clients',
+    role: 'clients:write',
+    body: {
+      type: 'object',
+      properties: { rateLimit: nullable(RATE_LIMIT_SCHEMA), creditGrant: nullable(CREDIT_GRANT_SCHEMA) },
+    },
+    responses: { 200: { description: 'The client config', schema: CLIENT_CONFIG_SCHEMA } },
+    async handle({ env, context, params: { clientId }, body: newClientConfig }) {
+      // Validate the request body
+      const validationError =
+        validateClientId(clientId) ??
+        validateRateLimitConfig(newClientConfig.rateLimit) ??
+        validateCreditGrantConfig(newClientConfig.creditGrant);
+      if (validationError) {
+        return errorResponse(400, validationError);
+      }
+
+      const currentClientConfig = await getClientConfig(clientId, env);
+      const clientConfig = await setClientConfig(
+        clientId,
+        { rateLimit: newClientConfig.rateLimit, creditGrant: newClientConfig.creditGrant },
+        env
+      );
+      await recordAudit(context, 'client.update', { type: 'client', id: clientId }, currentClientConfig, clientConfig, env);
+      return successResponse({ clientId, ...clientConfig });
+    },
+  }),
+];
@@ -1,6 +1,16 @@
 import { errorResponse, successResponse } from '@/shared/utils/response';
 
-import { getCreditsByClientId, setCreditsByClientId } from '../services/credits';
+import { recordAudit } from '../services/audit';
+import {
+  addCreditsByClientId,
+  deductCreditsByClientId,
+  getCreditsByClientId,
+  listCreditTransactions,
+  setCreditsByClientId,
+} from '../services/credits';
+import { type AdminRoute, defineRoute } from '../utils/router';
+import { PAGE_QUERY, TIME_RANGE_QUERY } from '../utils/schemas';
+import { type JsonSchema, parseCreditTransactionQuery, validateClientId } from '../utils/validation';
 
 /**
  * Validates credit value to ensure it meets system requirements
@@ -39,45 +49,205 @@ function validateCredits(credits: number | undefined, requireValue = true): stri
 }
 
 /**
- * Handle credits management requests
+ * Validates a credit delta amount (add or deduct)
+ * @param amount The amount to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateAmount(amount: number | undefined): string | null {
+  // Check if amount is a number
+  if (typeof amount !== 'number' || isNaN(amount)) {
+    return 'Amount must be a valid number';
+  }
+
+  // Check if amount is positive
+  if (amount <= 0) {
+    return 'Amount must be greater than 0';
+  }
+
+  // Check if amount is not greater than the maximum allowed
+  if (amount > 1000000) {
+    return 'Amount cannot be greater than 1,000,000';
+  }
+
+  // Validation passed
+  return null;
+}
+
+const CREDIT_BALANCE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { clientId: { type: 'string' }, credits: { type: 'number' } },
+};
+
+const REASON_SCHEMA: JsonSchema = { type: 'string', description: 'Recorded in the credit transaction and the audit log' };
+
+/**
+ * Credits management routes
  */
-export async function handleCreditRequest(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
-  const path = url.pathname;
-  const method = request.method;
-
-  try {
-    // Check if the path has a valid format for a single credit /admin/credits/:clientId
-    if (path.match(/^\/admin\/credits\/[^\/]+$/)) {
-      const clientId = path.split('/').pop();
-      if (!clientId) {
-        return errorResponse(400, 'Invalid Client ID');
+export const creditRoutes: AdminRoute<unknown>[] = [
+  // List the credit transactions of a client
+  defineRoute({
+    method: 'GET',
+    path: '/admin/credits/:clientId/transactions',
+    summary: 'List the credit transactions of a client',
+    tag: 'Credits',
+    role: 'credits:read',
+    query: [...TIME_RANGE_QUERY, ...PAGE_QUERY],
+    responses: {
+      200: {
+        description: 'A page of credit transactions, kept for the lifetime of the ledger so balances can be reconciled',
+        schema: {
+          type: 'object',
+          properties: {
+            clientId: { type: 'string' },
+            transactions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['topup', 'adjustment', 'debit', 'refund', 'grant'] },
+                  amount: { type: 'number', description: 'Signed change applied to the balance' },
+                  balance: { type: 'number', description: 'Balance after the change' },
+                  reason: { type: 'string' },
+                  actor: { type: 'string' },
+                  requestId: { type: 'string' },
+                  createdAt: { type: 'integer' },
+                },
+              },
+            },
+            cursor: { type: ['string', 'null'] },
+          },
+        },
+      },
+    },
+    async handle({ env, params: { clientId }, query: searchParams }) {
+      const clientIdError = validateClientId(clientId);
+      if (clientIdError) {
+        return errorResponse(400, clientIdError);
       }
 
-      // Get a credit info
-      if (method === 'GET') {
-        const credits = await getCreditsByClientId(clientId, env);
-        return successResponse({ clientId, credits });
+      const query = parseCreditTransactionQuery(searchParams);
+      if ('error' in query) {
+        return errorResponse(400, query.error);
       }
 
-      // Update a credit info
-      if (method === 'PUT') {
-        const { credits } = (await request.json()) as { credits: number };
+      const result = await listCreditTransactions(clientId, query, env);
+      return successResponse({ clientId, ...result });
+    },
+  }),
 
-        const validationError = validateCredits(credits);
+  // Apply a delta to the balance of a client
+  ...(['add', 'deduct'] as const).map((operation) =>
+    defineRoute<{ amount: number; reason?: string }>({
+      method: 'POST',
+      path: `/admin/credits/:clientId/${operation}`,
+      summary: operation === 'add' ? 'Add credits to a client' : 'Deduct credits from a client',
+      tag: 'Credits',
+      role: 'credits:write',
+      body: {
+        type: 'object',
+        properties: { amount: { type: 'number', minimum: 0, maximum: 1000000 }, reason: REASON_SCHEMA },
+        required: ['amount'],
+      },
+      responses: { 200: { description: 'The new balance', schema: CREDIT_BALANCE_SCHEMA } },
+      async handle({ env, context, params: { clientId }, body: { amount, reason } }) {
+        const validationError = validateClientId(clientId) ?? validateAmount(amount);
         if (validationError) {
           return errorResponse(400, validationError);
         }
 
-        // Set the credits
-        await setCreditsByClientId(clientId, credits, env);
-        return successResponse({ clientId, credits });
+        const details = { reason, actor: context.principal.id, requestId: context.requestId };
+        const result =
+          operation === 'add'
+            ? await addCreditsByClientId(clientId, amount, details, env)
+            : await deductCreditsByClientId(clientId, amount, details, env);
+        if (!result.success) {
+          return errorResponse(400, 'Insufficient credits');
+        }
+
+        // The ledger applies the delta atomically, so the previous balance follows from the new one
+        const previousCredits = operation === 'add' ? result.remaining - amount : result.remaining + amount;
+        await recordAudit(
+          context,
+          `credits.${operation}`,
+          { type: 'credits', id: clientId },
+          { credits: previousCredits },
+          { credits: result.remaining, amount, reason },
+          env
+        );
+        return successResponse({ clientId, credits: result.remaining });
+      },
+    })
+  ),
+
+  // Get the balance of a client
+  defineRoute({
+    method: 'GET',
+    path: '/admin/credits/:clientId',
+    summary: 'Get the credit balance of a client',
+    tag: 'Credits',
+    role: 'credits:read',
+    responses: { 200: { description: 'The balance', schema: CREDIT_BALANCE_SCHEMA } },
+    async handle({ env, params: { clientId } }) {
+      const validationError = validateClientId(clientId);
+      if (validationError) {
+        return errorResponse(400, validationError);
       }
-    }
 
-    // POST /admin/credits - Create a new credit balance for a client
-    if (method === 'POST' && path === '/admin/credits') {
-      const { clientId, credits } = (await request.json()) as { clientId: string; credits: number };
+      const credits = await getCreditsByClientId(clientId, env);
+      return successResponse({ clientId, credits });
+    },
+  }),
+
+  // Set the balance of a client
+  defineRoute<{ credits: number; reason?: string }>({
+    method: 'PUT',
+    path: '/admin/credits/:clientId',
+    summary: 'Set the credit balance of a client',
+    tag: 'Credits',
+    role: 'credits:write',
+    body: {
+      type: 'object',
+      properties: { credits: { type: 'number', minimum: 0, maximum: 1000000 }, reason: REASON_SCHEMA },
+      required: ['credits'],
+    },
+    responses: { 200: { description: 'The new balance', schema: CREDIT_BALANCE_SCHEMA } },
+    async handle({ env, context, params: { clientId }, body: { credits, reason } }) {
+      const validationError = validateClientId(clientId) ?? validateCredits(credits);
+      if (validationError) {
+        return errorResponse(400, validationError);
+      }
+
+      // Set the credits
+      const currentCredits = await getCreditsByClientId(clientId, env);
+      await setCreditsByClientId(clientId, credits, { reason, actor: context.principal.id, requestId: context.requestId }, env);
+      await recordAudit(context, 'credits.set', { type: 'credits', id: clientId }, { credits: currentCredits }, { credits, reason }, env);
+      return successResponse({ clientId, credits });
+    },
+  }),
+
+  // Create a new credit balance for a client
+  defineRoute<{ clientId: string; credits: number; reason?: string }>({
+    method: 'POST',
+    path: '/admin/credits',
+    summary: 'Create the credit balance of a client',
+    tag: 'Credits',
+    role: 'credits:write',
+    body: {
+      type: 'object',
+      properties: {
+        clientId: { type: 'string', minLength: 1 },
+        credits: { type: 'number', minimum: 0, maximum: 1000000 },
+        reason: REASON_SCHEMA,
+      },
+      required: ['clientId', 'credits'],
+    },
+    responses: { 200: { description: 'The initial balance', schema: CREDIT_BALANCE_SCHEMA } },
+    async handle({ env, context, body: { clientId, credits, reason } }) {
+      const clientIdError = validateClientId(clientId);
+      if (clientIdError) {
+        return errorResponse(400, clientIdError);
+      }
 
       // Check if the client ID already exists
       const currentCredits = await getCreditsByClientId(clientId, env);
@@ -85,25 +255,20 @@ export async function handleCreditRequest(request: Request, env: Env): Promise<R
         return errorResponse(400, 'Client ID already exists');
       }
 
-      // Validate clientId
-      if (!clientId) {
-        return errorResponse(400, 'Client ID is required');
-      }
-
       const validationError = validateCredits(credits);
       if (validationError) {
         return errorResponse(400, validationError);
       }
 
       // Set the credits
-      await setCreditsByClientId(clientId, credits, env);
+      await setCreditsByClientId(
+        clientId,
+        credits,
+        { reason: reason ?? 'Initial balance', actor: context.principal.id, requestId: context.requestId },
+        env
+      );
+      await recordAudit(context, 'credits.create', { type: 'credits', id: clientId }, null, { credits, reason }, env);
       return successResponse({ clientId, credits });
-    }
-
-    // If no route matches
-    return errorResponse(404, 'Not Found');
-  } catch (error) {
-    console.error('Error handling credit request:', error instanceof Error ? error.message : String(error));
-    return errorResponse(500, 'Internal Server Error');
-  }
-}
+    },
+  }),
+];
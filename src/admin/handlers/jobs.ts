@@ -0,0 +1,73 @@
+import { errorResponse, successResponse } from '@/shared/utils/response';
+
+import { getJobRun, listJobRuns } from '../services/jobs';
+import { type AdminRoute, defineRoute } from '../utils/router';
+import { PAGE_QUERY } from '../utils/schemas';
+import { type JsonSchema, parsePageOptions } from '../utils/validation';
+
+const JOB_RUN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Scheduled time of the cron event, shared by retries of the same run' },
+    cron: { type: 'string' },
+    scheduledTime: { type: 'integer' },
+    startedAt: { type: 'integer' },
+    finishedAt: { type: 'integer' },
+    creditGrants: {
+      type: 'object',
+      properties: { applied: { type: 'integer' }, skipped: { type: 'integer' }, failed: { type: 'integer' } },
+    },
+    keyCleanup: { type: 'object', properties: { archived: { type: 'integer' }, failed: { type: 'integer' } } },
+    expiryNotifications: { type: 'object', properties: { checked: { type: 'integer' } } },
+    storagePurge: { type: 'object', properties: { purged: { type: 'integer' } } },
+    errors: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+/**
+ * Scheduled job routes
+ */
+export const jobRoutes: AdminRoute<unknown>[] = [
+  // Get the summary of a scheduled run
+  defineRoute({
+    method: 'GET',
+    path: '/admin/jobs/runs/:id',
+    summary: 'Get a scheduled job run',
+    tag: 'Jobs',
+    role: 'jobs:read',
+    responses: { 200: { description: 'The run summary', schema: JOB_RUN_SCHEMA }, 404: { description: 'Job run not found' } },
+    async handle({ env, params }) {
+      const run = await getJobRun(params.id, env);
+      if (!run) {
+        return errorResponse(404, 'Job run not found');
+      }
+
+      return successResponse(run);
+    },
+  }),
+
+  // List the summaries of scheduled runs, newest first
+  defineRoute({
+    method: 'GET',
+    path: '/admin/jobs/runs',
+    summary: 'List scheduled job runs',
+    tag: 'Jobs',
+    role: 'jobs:read',
+    query: PAGE_QUERY,
+    responses: {
+      200: {
+        description: 'A page of run summaries, newest first',
+        schema: { type: 'object', properties: { runs: { type: 'array', items: JOB_RUN_SCHEMA }, cursor: { type: ['string', 'null'] } } },
+      },
+    },
+    async handle({ env, query }) {
+      const page = parsePageOptions(query);
+      if ('error' in page) {
+        return errorResponse(400, page.error);
+      }
+
+      const result = await listJobRuns(page, env);
+      return successResponse(result);
+    },
+  }),
+];
@@ -0,0 +1,55 @@
+import { PERSISTENT_STORAGE_BACKENDS, type StorageBackendName } from '@/shared/storage';
+import { errorResponse, successResponse } from '@/shared/utils/response';
+
+import { recordAudit } from '../services/audit';
+import { copyStorage } from '../services/storage';
+import { type AdminRoute, defineRoute } from '../utils/router';
+
+// Entries copied per request: the source is read in bulk but every entry costs a write to the target,
+// so pages stay small enough for the per-request limit on storage operations and subrequests
+const DEFAULT_COPY_LIMIT = 50;
+const MAX_COPY_LIMIT = 100;
+
+/**
+ * Storage maintenance routes
+ */
+export const storageRoutes: AdminRoute<unknown>[] = [
+  // Copy the entries of a storage backend to another, one page per request
+  defineRoute<{ from: StorageBackendName; to: StorageBackendName; limit?: number; cursor?: string }>({
+    method: 'POST',
+    path: '/admin/storage/copy',
+    summary: 'Copy storage entries between backends',
+    tag: 'Storage',
+    role: 'storage:write',
+    body: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', enum: PERSISTENT_STORAGE_BACKENDS },
+        to: { type: 'string', enum: PERSISTENT_STORAGE_BACKENDS },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_COPY_LIMIT,
+          description: `Entries copied by this request (defaults to ${DEFAULT_COPY_LIMIT}), continue with the returned cursor`,
+        },
+        cursor: { type: 'string', description: 'Cursor returned by the previous request' },
+      },
+      required: ['from', 'to'],
+    },
+    responses: {
+      200: {
+        description: 'The entries copied, and the cursor to continue from (null once every entry was copied)',
+        schema: { type: 'object', properties: { copied: { type: 'integer' }, cursor: { type: ['string', 'null'] } } },
+      },
+    },
+    async handle({ env, context, body: { from, to, limit, cursor } }) {
+      if (from === to) {
+        return errorResponse(400, 'Source and target backends must differ');
+      }
+
+      const result = await copyStorage(from, to, limit ?? DEFAULT_COPY_LIMIT, cursor, env);
+      await recordAudit(context, 'storage.copy', { type: 'storage', id: `${from}:${to}` }, { cursor: cursor ?? null }, result, env);
+      return successResponse(result);
+    },
+  }),
+];
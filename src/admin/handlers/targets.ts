@@ -0,0 +1,827 @@
+import type {
+  ApiKeyTransport,
+  HeaderRules,
+  JwtAlgorithm,
+  JwtAuthConfig,
+  LoadBalancingConfig,
+  MeteringConfig,
+  PricingRule,
+  ResilienceConfig,
+  TargetAuthMode,
+  TargetConfig,
+  TransformConfig,
+  UpstreamAuthConfig,
+} from '@/shared/types';
+import { errorResponse, successResponse } from '@/shared/utils/response';
+import { isJwtSecretName, isTargetSecretName, JWT_SECRET_PREFIX, TARGET_SECRET_PREFIX } from '@/shared/utils/secrets';
+
+import { recordAudit } from '../services/audit';
+import {
+  createTargetConfig,
+  deleteTargetConfig,
+  getTargetConfig,
+  listTargetConfigs,
+  seedTargetConfigs,
+  updateTargetConfig,
+} from '../services/target';
+import { type AdminRoute, defineRoute } from '../utils/router';
+import { nullable, RATE_LIMIT_SCHEMA, SUCCESS_SCHEMA } from '../utils/schemas';
+import { type JsonSchema, validateClientId, validateRateLimitConfig } from '../utils/validation';
+
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+const LOAD_BALANCING_STRATEGIES: LoadBalancingConfig['strategy'][] = ['round-robin', 'weighted', 'least-recently-failed'];
+const API_KEY_TRANSPORTS: ApiKeyTransport[] = ['header', 'bearer', 'query'];
+const AUTH_MODES: TargetAuthMode[] = ['apiKey', 'jwt', 'both'];
+const JWT_ALGORITHMS: JwtAlgorithm[] = ['RS256', 'ES256', 'HS256'];
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+
+/**
+ * Check that a value is a map of strings with valid keys
+ */
+function isStringRecord(value: unknown, keyPattern?: RegExp): value is Record<string, string> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.entries(value).every(([key, entry]) => typeof entry === 'string' && (!keyPattern || keyPattern.test(key)))
+  );
+}
+
+/**
+ * Validates header add/set/remove rules
+ * @param rules The header rules to validate
+ * @param label The rules being validated, for error messages
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateHeaderRules(rules: HeaderRules, label: string): string | null {
+  if (typeof rules !== 'object' || rules === null) {
+    return `${label} header rules must be an object`;
+  }
+
+  if (rules.add !== undefined && !isStringRecord(rules.add, HEADER_NAME_PATTERN)) {
+    return `${label} header add rules must map valid header names to strings`;
+  }
+
+  if (rules.set !== undefined && !isStringRecord(rules.set, HEADER_NAME_PATTERN)) {
+    return `${label} header set rules must map valid header names to strings`;
+  }
+
+  if (rules.remove !== undefined && (!Array.isArray(rules.remove) || rules.remove.some((name) => !HEADER_NAME_PATTERN.test(name)))) {
+    return `${label} header remove rules must be a list of valid header names`;
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Validates request/response transformations
+ * @param transform The transformation configuration to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateTransformConfig(transform: TransformConfig): string | null {
+  if (typeof transform !== 'object' || transform === null) {
+    return 'Transform must be an object';
+  }
+
+  if (transform.request?.headers !== undefined) {
+    const headersError = validateHeaderRules(transform.request.headers, 'Request');
+    if (headersError) {
+      return headersError;
+    }
+  }
+
+  if (transform.request?.query !== undefined && !isStringRecord(transform.request.query)) {
+    return 'Request query must map parameter names to strings';
+  }
+
+  if (transform.response?.headers !== undefined) {
+    const headersError = validateHeaderRules(transform.response.headers, 'Response');
+    if (headersError) {
+      return headersError;
+    }
+  }
+
+  if (transform.pathRewrite !== undefined) {
+    if (typeof transform.pathRewrite !== 'object' || transform.pathRewrite === null) {
+      return 'Path rewrite must be an object';
+    }
+
+    const { pattern, replacement } = transform.pathRewrite;
+    if (typeof pattern !== 'string' || !pattern) {
+      return 'Path rewrite pattern must be a non-empty string';
+    }
+
+    if (typeof replacement !== 'string') {
+      return 'Path rewrite replacement must be a string';
+    }
+
+    let groupCount: number;
+    try {
+      // Matching the empty alternative reveals the number of capture groups
+      groupCount = new RegExp(`${pattern}|`).exec('')!.length - 1;
+    } catch {
+      return 'Path rewrite pattern must be a valid regular expression';
+    }
+
+    const referencedGroups = [...replacement.matchAll(/\$(\d+)/g)].map((match) => parseInt(match[1]));
+    if (referencedGroups.some((group) => group < 1 || group > groupCount)) {
+      return 'Path rewrite replacement references a capture group that does not exist';
+    }
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Validates a metering configuration
+ * @param metering The metering configuration to validate
+ * @param cost The flat cost charged when the upstream reports no cost
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateMeteringConfig(metering: Partial<MeteringConfig>, cost: number): string | null {
+  if (typeof metering !== 'object' || metering === null) {
+    return 'Metering must be an object';
+  }
+
+  if (!metering.header && !metering.jsonField) {
+    return 'Metering requires a header or a JSON field';
+  }
+
+  if (metering.header !== undefined && (typeof metering.header !== 'string' || !/^[A-Za-z0-9-]+$/.test(metering.header))) {
+    return 'Metering header must be a valid header name';
+  }
+
+  if (metering.jsonField !== undefined && (typeof metering.jsonField !== 'string' || !metering.jsonField)) {
+    return 'Metering JSON field must be a non-empty string';
+  }
+
+  if (typeof metering.maxCost !== 'number' || isNaN(metering.maxCost) || metering.maxCost < 0) {
+    return 'Metering max cost must be a non-negative number';
+  }
+
+  if (cost > metering.maxCost) {
+    return 'Cost cannot be greater than the metering max cost';
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Validates ordered pricing rules
+ * @param rules The pricing rules to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validatePricingRules(rules: Partial<PricingRule>[]): string | null {
+  if (!Array.isArray(rules)) {
+    return 'Pricing rules must be a list';
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    if (!rule.name || typeof rule.name !== 'string') {
+      return `Pricing rule ${index} requires a name`;
+    }
+
+    if (rule.methods !== undefined && (!Array.isArray(rule.methods) || rule.methods.some((method) => !HTTP_METHODS.includes(method)))) {
+      return `Pricing rule ${rule.name} methods must be a list of ${HTTP_METHODS.join(', ')}`;
+    }
+
+    if (rule.path !== undefined && (typeof rule.path !== 'string' || !rule.path.startsWith('/'))) {
+      return `Pricing rule ${rule.name} path must start with '/'`;
+    }
+
+    if (typeof rule.cost !== 'number' || isNaN(rule.cost) || rule.cost < 0) {
+      return `Pricing rule ${rule.name} cost must be a non-negative number`;
+    }
+
+    if (rule.metering !== undefined) {
+      const meteringError = validateMeteringConfig(rule.metering, rule.cost);
+      if (meteringError) {
+        return `Pricing rule ${rule.name}: ${meteringError}`;
+      }
+    }
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Validates upstream credentials settings
+ * @param auth The upstream auth configuration to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateUpstreamAuthConfig(auth: Partial<UpstreamAuthConfig>): string | null {
+  if (typeof auth !== 'object' || auth === null) {
+    return 'Upstream auth must be an object';
+  }
+
+  // Secrets are referenced by Worker secret name, never stored inline
+  if (!isTargetSecretName(auth.secret)) {
+    return `Upstream auth secret must be the name of a Worker secret starting with ${TARGET_SECRET_PREFIX} (e.g. UPSTREAM_API_TOKEN)`;
+  }
+
+  switch (auth.type) {
+    case 'header':
+      if (typeof auth.header !== 'string' || !/^[A-Za-z0-9-]+$/.test(auth.header)) {
+        return 'Upstream auth header must be a valid header name';
+      }
+      break;
+    case 'basic':
+      if (typeof auth.username !== 'string' || !auth.username || auth.username.includes(':')) {
+        return 'Upstream auth username must be a non-empty string without colons';
+      }
+      break;
+    case 'bearer':
+    case 'hmac':
+      break;
+    default:
+      return "Upstream auth type must be one of 'header', 'bearer', 'basic', 'hmac'";
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Validates JWT verification settings
+ * @param jwt The JWT configuration to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateJwtAuthConfig(jwt: Partial<JwtAuthConfig>): string | null {
+  if (typeof jwt !== 'object' || jwt === null) {
+    return 'JWT settings must be an object';
+  }
+
+  if (typeof jwt.issuer !== 'string' || !jwt.issuer) {
+    return 'JWT issuer must be a non-empty string';
+  }
+
+  if (jwt.audience !== undefined) {
+    const audiences = Array.isArray(jwt.audience) ? jwt.audience : [jwt.audience];
+    if (!audiences.length || audiences.some((audience) => typeof audience !== 'string' || !audience)) {
+      return 'JWT audience must be a non-empty string or list of strings';
+    }
+  }
+
+  if (
+    jwt.algorithms !== undefined &&
+    (!Array.isArray(jwt.algorithms) || !jwt.algorithms.length || jwt.algorithms.some((algorithm) => !JWT_ALGORITHMS.includes(algorithm)))
+  ) {
+    return `JWT algorithms must be a non-empty list of ${JWT_ALGORITHMS.join(', ')}`;
+  }
+
+  if (jwt.jwks !== undefined) {
+    if (typeof jwt.jwks !== 'object' || jwt.jwks === null || !Array.isArray(jwt.jwks.keys) || !jwt.jwks.keys.length) {
+      return 'JWT JWKS must be a JSON Web Key Set with at least one key';
+    }
+
+    for (const jwk of jwt.jwks.keys) {
+      if (typeof jwk !== 'object' || jwk === null || (jwk.kty !== 'RSA' && jwk.kty !== 'EC')) {
+        return "JWT JWKS keys must be public keys of type 'RSA' or 'EC'";
+      }
+
+      // Private key members must never be stored in the target config
+      if (jwk.d !== undefined) {
+        return 'JWT JWKS keys must not include private key material';
+      }
+
+      if (jwk.kid !== undefined && typeof jwk.kid !== 'string') {
+        return 'JWT JWKS key IDs must be strings';
+      }
+    }
+  }
+
+  // Like upstream credentials, the HS256 key is referenced by Worker secret name, but from its own prefix
+  if (jwt.secret !== undefined && !isJwtSecretName(jwt.secret)) {
+    return `JWT secret must be the name of a Worker secret starting with ${JWT_SECRET_PREFIX} (e.g. JWT_SIGNING_KEY)`;
+  }
+
+  if (!jwt.jwks && !jwt.secret) {
+    return 'JWT settings must include a JWKS or a secret';
+  }
+
+  if (jwt.clientIdClaim !== undefined && (typeof jwt.clientIdClaim !== 'string' || !jwt.clientIdClaim)) {
+    return 'JWT client ID claim must be a non-empty string';
+  }
+
+  if (!isStringRecord(jwt.clients) || !Object.keys(jwt.clients).length || Object.values(jwt.clients).some(validateClientId)) {
+    return "JWT clients must map at least one client ID claim value to a gateway client ID without ':'";
+  }
+
+  if (jwt.clockTolerance !== undefined && !isIntegerInRange(jwt.clockTolerance, 0, 300)) {
+    return 'JWT clock tolerance must be between 0 and 300 seconds';
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Validates an upstream URL
+ * @param value The URL to validate
+ * @param label The URL being validated, for error messages
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateUpstreamUrl(value: unknown, label: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value as string);
+  } catch {
+    return `${label} must be a valid URL`;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return `${label} must use http or https`;
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Check that a value is an integer within a range
+ */
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validates timeout, retry and circuit breaker settings
+ * @param resilience The resilience configuration to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateResilienceConfig(resilience: ResilienceConfig): string | null {
+  if (typeof resilience !== 'object' || resilience === null) {
+    return 'Resilience must be an object';
+  }
+
+  if (resilience.timeoutMs !== undefined && !isIntegerInRange(resilience.timeoutMs, 100, 300000)) {
+    return 'Timeout must be between 100 ms and 5 minutes';
+  }
+
+  const { retry, circuitBreaker } = resilience;
+
+  if (retry !== undefined) {
+    if (!isIntegerInRange(retry.attempts, 0, 5)) {
+      return 'Retry attempts must be between 0 and 5';
+    }
+
+    if (!isIntegerInRange(retry.backoffMs, 0, 10000)) {
+      return 'Retry backoff must be between 0 and 10 seconds';
+    }
+
+    if (
+      retry.statuses !== undefined &&
+      (!Array.isArray(retry.statuses) || retry.statuses.some((status) => !isIntegerInRange(status, 100, 599)))
+    ) {
+      return 'Retry statuses must be a list of HTTP status codes';
+    }
+  }
+
+  if (circuitBreaker !== undefined) {
+    const { errorRateThreshold, minRequests, windowMs, cooldownMs } = circuitBreaker;
+
+    if (typeof errorRateThreshold !== 'number' || !(errorRateThreshold > 0 && errorRateThreshold <= 1)) {
+      return 'Circuit breaker error rate threshold must be between 0 and 1';
+    }
+
+    if (!isIntegerInRange(minRequests, 1, 100000)) {
+      return 'Circuit breaker min requests must be a positive integer';
+    }
+
+    if (!isIntegerInRange(windowMs, 1000, 3600000)) {
+      return 'Circuit breaker window must be between 1 second and 1 hour';
+    }
+
+    if (!isIntegerInRange(cooldownMs, 1000, 3600000)) {
+      return 'Circuit breaker cooldown must be between 1 second and 1 hour';
+    }
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Validates target configuration values
+ * @param config The target configuration to validate
+ * @param isUpdate Whether this is for an update operation (different required fields)
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateTargetConfig(config: Partial<TargetConfig>, isUpdate = false): string | null {
+  // Validate required fields for creation
+  if (!isUpdate) {
+    if (!config.id) {
+      return 'Target ID is required';
+    }
+
+    if (!config.name) {
+      return 'Name is required';
+    }
+
+    if (!config.pattern) {
+      return 'Pattern is required';
+    }
+
+    if (!config.targetUrl && !config.origins) {
+      return 'Target URL or origins are required';
+    }
+
+    if (!config.costInfo) {
+      return 'Cost info is required';
+    }
+  }
+
+  // Validate id if present
+  if (config.id !== undefined && (typeof config.id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(config.id))) {
+    return 'Target ID may only contain letters, numbers, dashes and underscores';
+  }
+
+  // Validate isRegex if present
+  if (config.isRegex !== undefined && typeof config.isRegex !== 'boolean') {
+    return 'Is Regex must be a boolean';
+  }
+
+  // Validate pattern if present
+  if (config.pattern !== undefined) {
+    if (typeof config.pattern !== 'string') {
+      return 'Pattern must be a string';
+    }
+
+    if (config.isRegex) {
+      try {
+        new RegExp(config.pattern);
+      } catch {
+        return 'Pattern must be a valid regular expression';
+      }
+    } else if (!config.pattern.startsWith('/')) {
+      return "Pattern must start with '/'";
+    }
+  }
+
+  // Validate targetUrl if present
+  if (config.targetUrl !== undefined) {
+    const targetUrlError = validateUpstreamUrl(config.targetUrl, 'Target URL');
+    if (targetUrlError) {
+      return targetUrlError;
+    }
+  }
+
+  // Validate origins if present
+  if (config.origins !== undefined) {
+    if (!Array.isArray(config.origins) || !config.origins.length) {
+      return 'Origins must be a non-empty list';
+    }
+
+    for (const origin of config.origins) {
+      const originError = validateUpstreamUrl(origin?.url, 'Origin URL');
+      if (originError) {
+        return originError;
+      }
+
+      if (origin.weight !== undefined && !isIntegerInRange(origin.weight, 1, 1000)) {
+        return 'Origin weight must be between 1 and 1000';
+      }
+    }
+  }
+
+  // Validate loadBalancing if present
+  if (config.loadBalancing !== undefined) {
+    const { strategy, failureThreshold, cooldownMs } = config.loadBalancing;
+
+    if (!LOAD_BALANCING_STRATEGIES.includes(strategy)) {
+      return `Load balancing strategy must be one of ${LOAD_BALANCING_STRATEGIES.join(', ')}`;
+    }
+
+    if (failureThreshold !== undefined && !isIntegerInRange(failureThreshold, 1, 100)) {
+      return 'Load balancing failure threshold must be between 1 and 100';
+    }
+
+    if (cooldownMs !== undefined && !isIntegerInRange(cooldownMs, 1000, 3600000)) {
+      return 'Load balancing cooldown must be between 1 second and 1 hour';
+    }
+  }
+
+  // Validate exposeUpstreamHeader if present
+  if (config.exposeUpstreamHeader !== undefined && typeof config.exposeUpstreamHeader !== 'boolean') {
+    return 'Expose Upstream Header must be a boolean';
+  }
+
+  // Validate apiKeyTransports if present
+  if (
+    config.apiKeyTransports !== undefined &&
+    (!Array.isArray(config.apiKeyTransports) ||
+      !config.apiKeyTransports.length ||
+      config.apiKeyTransports.some((transport) => !API_KEY_TRANSPORTS.includes(transport)))
+  ) {
+    return `API key transports must be a non-empty list of ${API_KEY_TRANSPORTS.join(', ')}`;
+  }
+
+  // Validate authMode and jwt if present
+  if (config.authMode !== undefined && !AUTH_MODES.includes(config.authMode)) {
+    return `Auth mode must be one of ${AUTH_MODES.join(', ')}`;
+  }
+
+  if (config.jwt !== undefined) {
+    const jwtError = validateJwtAuthConfig(config.jwt);
+    if (jwtError) {
+      return jwtError;
+    }
+  }
+
+  if ((config.authMode === 'jwt' || config.authMode === 'both') && !config.jwt) {
+    return 'JWT settings are required when the auth mode accepts JWTs';
+  }
+
+  // Validate costInfo if present
+  if (config.costInfo !== undefined) {
+    const { cost, description, refundableStatuses, metering, rules } = config.costInfo;
+
+    if (typeof cost !== 'number' || isNaN(cost) || cost < 0) {
+      return 'Cost must be a non-negative number';
+    }
+
+    if (description !== undefined && typeof description !== 'string') {
+      return 'Cost description must be a string';
+    }
+
+    if (
+      refundableStatuses !== undefined &&
+      (!Array.isArray(refundableStatuses) || refundableStatuses.some((status) => !Number.isInteger(status) || status < 100 || status > 599))
+    ) {
+      return 'Refundable statuses must be a list of HTTP status codes';
+    }
+
+    if (metering !== undefined) {
+      const meteringError = validateMeteringConfig(metering, cost);
+      if (meteringError) {
+        return meteringError;
+      }
+    }
+
+    if (rules !== undefined) {
+      const rulesError = validatePricingRules(rules);
+      if (rulesError) {
+        return rulesError;
+      }
+    }
+  }
+
+  // Validate rateLimit if present
+  const rateLimitError = validateRateLimitConfig(config.rateLimit);
+  if (rateLimitError) {
+    return rateLimitError;
+  }
+
+  // Validate transform if present
+  if (config.transform !== undefined) {
+    const transformError = validateTransformConfig(config.transform);
+    if (transformError) {
+      return transformError;
+    }
+  }
+
+  // Validate resilience if present
+  if (config.resilience !== undefined) {
+    const resilienceError = validateResilienceConfig(config.resilience);
+    if (resilienceError) {
+      return resilienceError;
+    }
+  }
+
+  // Validate upstreamAuth if present
+  if (config.upstreamAuth !== undefined) {
+    const upstreamAuthError = validateUpstreamAuthConfig(config.upstreamAuth);
+    if (upstreamAuthError) {
+      return upstreamAuthError;
+    }
+  }
+
+  // Validation passed
+  return null;
+}
+
+// Nested configs are described loosely here and checked by validateTargetConfig
+const TARGET_PROPERTIES: Record<string, JsonSchema> = {
+  name: { type: 'string', minLength: 1 },
+  pattern: { type: 'string', minLength: 1, description: "Path prefix starting with '/', or a regular expression when isRegex" },
+  isRegex: { type: 'boolean' },
+  targetUrl: { type: 'string', format: 'uri', description: 'Single upstream origin, used when no origins are listed' },
+  origins: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { url: { type: 'string', format: 'uri' }, weight: { type: 'number', minimum: 0 } },
+      required: ['url'],
+    },
+  },
+  loadBalancing: {
+    type: 'object',
+    properties: {
+      strategy: { type: 'string', enum: LOAD_BALANCING_STRATEGIES },
+      failureThreshold: { type: 'integer', minimum: 1 },
+      cooldownMs: { type: 'integer', minimum: 0 },
+    },
+  },
+  exposeUpstreamHeader: { type: 'boolean' },
+  apiKeyTransports: { type: 'array', items: { type: 'string', enum: API_KEY_TRANSPORTS } },
+  authMode: { type: 'string', enum: AUTH_MODES },
+  jwt: {
+    type: 'object',
+    properties: {
+      issuer: { type: 'string' },
+      audience: { type: ['string', 'array'], items: { type: 'string' } },
+      algorithms: { type: 'array', items: { type: 'string', enum: JWT_ALGORITHMS } },
+      jwks: { type: 'object', properties: { keys: { type: 'array', items: { type: 'object' } } } },
+      secret: { type: 'string', description: `Name of the Worker secret holding the HS256 key, starting with ${JWT_SECRET_PREFIX}` },
+      clientIdClaim: { type: 'string' },
+      clients: {
+        type: 'object',
+        additionalProperties: { type: 'string', minLength: 1 },
+        description: 'Gateway client ID of each accepted client ID claim value',
+      },
+      clockTolerance: { type: 'integer', minimum: 0 },
+    },
+  },
+  costInfo: {
+    type: 'object',
+    properties: {
+      cost: { type: 'number', minimum: 0 },
+      description: { type: 'string' },
+      refundableStatuses: { type: 'array', items: { type: 'integer' } },
+      metering: { type: 'object' },
+      rules: { type: 'array', items: { type: 'object' } },
+    },
+  },
+  rateLimit: nullable(RATE_LIMIT_SCHEMA),
+  upstreamAuth: { type: 'object', properties: { type: { type: 'string', enum: ['header', 'bearer', 'basic', 'hmac'] } } },
+  transform: { type: 'object' },
+  resilience: { type: 'object' },
+};
+
+const TARGET_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { id: { type: 'string' }, ...TARGET_PROPERTIES },
+};
+
+const TARGET_NOT_FOUND = { description: 'Target not found' };
+
+/**
+ * Target management routes
+ */
+export const targetRoutes: AdminRoute<unknown>[] = [
+  // Copy the static seed targets into storage
+  defineRoute({
+    method: 'POST',
+    path: '/admin/targets/seed',
+    summary: 'Seed the static targets',
+    tag: 'Targets',
+    role: 'targets:write',
+    responses: {
+      200: {
+        description: 'IDs of the seeded targets',
+        schema: { type: 'object', properties: { seeded: { type: 'array', items: { type: 'string' } } } },
+      },
+    },
+    async handle({ env, context }) {
+      const seeded = await seedTargetConfigs(env);
+      await recordAudit(context, 'target.seed', { type: 'target', id: '*' }, null, { seeded }, env);
+      return successResponse({ seeded });
+    },
+  }),
+
+  // Get a target config
+  defineRoute({
+    method: 'GET',
+    path: '/admin/targets/:id',
+    summary: 'Get a target',
+    tag: 'Targets',
+    role: 'targets:read',
+    responses: { 200: { description: 'The target config', schema: TARGET_SCHEMA }, 404: TARGET_NOT_FOUND },
+    async handle({ env, params }) {
+      const targetConfig = await getTargetConfig(params.id, env);
+      if (!targetConfig) {
+        return errorResponse(404, 'Target not found');
+      }
+
+      return successResponse(targetConfig);
+    },
+  }),
+
+  // Update a target config
+  defineRoute<Partial<TargetConfig>>({
+    method: 'PUT',
+    path: '/admin/targets/:id',
+    summary: 'Update a target',
+    tag: 'Targets',
+    role: 'targets:write',
+    body: { type: 'object', properties: TARGET_PROPERTIES },
+    responses: { 200: { description: 'The updated target config', schema: TARGET_SCHEMA }, 404: TARGET_NOT_FOUND },
+    async handle({ env, context, params, body: newTargetConfig }) {
+      const targetId = params.id;
+
+      // Regex validation needs to know the final isRegex value
+      const currentTargetConfig = await getTargetConfig(targetId, env);
+      if (!currentTargetConfig) {
+        return errorResponse(404, 'Target not found');
+      }
+
+      // Validate the request body
+      const validationError = validateTargetConfig(
+        {
+          ...newTargetConfig,
+          id: undefined,
+          pattern: newTargetConfig.pattern ?? currentTargetConfig.pattern,
+          isRegex: newTargetConfig.isRegex ?? currentTargetConfig.isRegex,
+          authMode: newTargetConfig.authMode ?? currentTargetConfig.authMode,
+          jwt: newTargetConfig.jwt ?? currentTargetConfig.jwt,
+        },
+        true
+      );
+      if (validationError) {
+        return errorResponse(400, validationError);
+      }
+
+      // Update the target config
+      const updatedTargetConfig = await updateTargetConfig(targetId, newTargetConfig, env);
+      if (!updatedTargetConfig) {
+        return errorResponse(404, 'Target not found');
+      }
+
+      await recordAudit(context, 'target.update', { type: 'target', id: targetId }, currentTargetConfig, updatedTargetConfig, env);
+      return successResponse(updatedTargetConfig);
+    },
+  }),
+
+  // Delete a target config
+  defineRoute({
+    method: 'DELETE',
+    path: '/admin/targets/:id',
+    summary: 'Delete a target',
+    tag: 'Targets',
+    role: 'targets:write',
+    responses: { 200: { description: 'The target was deleted', schema: SUCCESS_SCHEMA }, 404: TARGET_NOT_FOUND },
+    async handle({ env, context, params }) {
+      const targetId = params.id;
+      const currentTargetConfig = await getTargetConfig(targetId, env);
+      const success = await deleteTargetConfig(targetId, env);
+      if (!success) {
+        return errorResponse(404, 'Target not found');
+      }
+
+      await recordAudit(context, 'target.delete', { type: 'target', id: targetId }, currentTargetConfig, null, env);
+      return successResponse({ success });
+    },
+  }),
+
+  // List all targets
+  defineRoute({
+    method: 'GET',
+    path: '/admin/targets',
+    summary: 'List targets',
+    tag: 'Targets',
+    role: 'targets:read',
+    responses: { 200: { description: 'Every target config', schema: { type: 'array', items: TARGET_SCHEMA } } },
+    async handle({ env }) {
+      const targetConfigs = await listTargetConfigs(env);
+      return successResponse(targetConfigs);
+    },
+  }),
+
+  // Create a new target
+  defineRoute<TargetConfig>({
+    method: 'POST',
+    path: '/admin/targets',
+    summary: 'Create a target',
+    tag: 'Targets',
+    role: 'targets:write',
+    body: {
+      type: 'object',
+      properties: { id: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' }, ...TARGET_PROPERTIES },
+      required: ['id', 'name', 'pattern', 'costInfo'],
+    },
+    responses: {
+      201: { description: 'The created target config', schema: TARGET_SCHEMA },
+      409: { description: 'Target ID already exists' },
+    },
+    async handle({ env, context, body: targetConfig }) {
+      // Validate the request body
+      const validationError = validateTargetConfig(targetConfig);
+      if (validationError) {
+        return errorResponse(400, validationError);
+      }
+
+      // Create a new target config
+      const result = await createTargetConfig({ ...targetConfig, isRegex: targetConfig.isRegex ?? false }, env);
+      if (!result) {
+        return errorResponse(409, 'Target ID already exists');
+      }
+
+      await recordAudit(context, 'target.create', { type: 'target', id: result.id }, null, result, env);
+      return successResponse(result, 201);
+    },
+  }),
+];
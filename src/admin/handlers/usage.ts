@@ -0,0 +1,110 @@
+import type { UsageQuery } from '@/shared/types';
+import { errorResponse, successResponse } from '@/shared/utils/response';
+
+import { getUsage } from '../services/usage';
+import { type AdminRoute, defineRoute } from '../utils/router';
+import { type JsonSchema, parseTimestampParam } from '../utils/validation';
+
+const GRANULARITIES: UsageQuery['granularity'][] = ['hour', 'day', 'month'];
+const GROUP_BY_DIMENSIONS = ['client', 'target', 'key'];
+
+// Default query window when no range is given
+const DEFAULT_USAGE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+const USAGE_ROW_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    bucket: { type: 'integer', description: 'Start of the time bucket, in milliseconds' },
+    clientId: { type: 'string' },
+    targetId: { type: 'string' },
+    keyId: { type: 'string' },
+    requests: { type: 'integer' },
+    errors: { type: 'integer' },
+    creditsUsed: { type: 'number' },
+    totalLatencyMs: { type: 'number' },
+  },
+};
+
+/**
+ * Usage analytics routes
+ */
+export const usageRoutes: AdminRoute<unknown>[] = [
+  // Aggregate usage
+  defineRoute({
+    method: 'GET',
+    path: '/admin/usage',
+    summary: 'Aggregate usage',
+    tag: 'Usage',
+    role: 'usage:read',
+    query: [
+      { name: 'clientId', description: 'Clients to aggregate, repeated or comma-separated', schema: { type: 'string' } },
+      { name: 'from', description: 'Start of the range (defaults to 30 days before To)', schema: { type: 'string' } },
+      { name: 'to', description: 'End of the range (defaults to now)', schema: { type: 'string' } },
+      { name: 'granularity', description: 'Time bucket size (defaults to day)', schema: { type: 'string', enum: GRANULARITIES } },
+      {
+        name: 'groupBy',
+        description: `Comma-separated dimensions among ${GROUP_BY_DIMENSIONS.join(', ')} (defaults to client)`,
+        schema: { type: 'string' },
+      },
+    ],
+    responses: {
+      200: {
+        description: 'Usage rows by time bucket and dimension',
+        schema: {
+          type: 'object',
+          properties: {
+            from: { type: 'integer' },
+            to: { type: 'integer' },
+            granularity: { type: 'string', enum: GRANULARITIES },
+            groupBy: { type: 'array', items: { type: 'string' } },
+            rows: { type: 'array', items: USAGE_ROW_SCHEMA },
+          },
+        },
+      },
+    },
+    async handle({ env, query }) {
+      // Client IDs can be repeated or comma-separated
+      const clientIds = query
+        .getAll('clientId')
+        .flatMap((value) => value.split(','))
+        .map((clientId) => clientId.trim())
+        .filter(Boolean);
+      if (!clientIds.length) {
+        return errorResponse(400, 'Client ID is required');
+      }
+
+      const to = parseTimestampParam(query.get('to')) ?? Date.now();
+      const from = parseTimestampParam(query.get('from')) ?? to - DEFAULT_USAGE_WINDOW_MS;
+      if (isNaN(from) || isNaN(to)) {
+        return errorResponse(400, 'From and To must be valid dates');
+      }
+
+      if (from > to) {
+        return errorResponse(400, 'From cannot be after To');
+      }
+
+      const granularity = (query.get('granularity') ?? 'day') as UsageQuery['granularity'];
+      if (!GRANULARITIES.includes(granularity)) {
+        return errorResponse(400, `Granularity must be one of ${GRANULARITIES.join(', ')}`);
+      }
+
+      const groupBy = (query.get('groupBy') ?? 'client')
+        .split(',')
+        .map((dimension) => dimension.trim())
+        .filter(Boolean);
+      if (groupBy.some((dimension) => !GROUP_BY_DIMENSIONS.includes(dimension))) {
+        return errorResponse(400, `Group By must be a list of ${GROUP_BY_DIMENSIONS.join(', ')}`);
+      }
+
+      const usageQuery: UsageQuery = {
+        from,
+        to,
+        granularity,
+        groupBy: groupBy.filter((dimension): dimension is UsageQuery['groupBy'][number] => dimension !== 'client'),
+      };
+      const rows = await getUsage(clientIds, usageQuery, groupBy.includes('client'), env);
+
+      return successResponse({ from, to, granularity, groupBy, rows });
+    },
+  }),
+];
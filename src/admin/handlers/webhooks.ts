@@ -0,0 +1,306 @@
+import type { WebhookEvent, WebhookSubscription } from '@/shared/types';
+import { errorResponse, successResponse } from '@/shared/utils/response';
+
+import { recordAudit } from '../services/audit';
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  listWebhookDeliveries,
+  listWebhooks,
+  updateWebhook,
+  withoutSecret,
+} from '../services/webhooks';
+import { type AdminRoute, defineRoute } from '../utils/router';
+import { PAGE_QUERY, SUCCESS_SCHEMA } from '../utils/schemas';
+import { type JsonSchema, parsePageOptions, validateClientId } from '../utils/validation';
+
+const WEBHOOK_EVENTS: WebhookEvent[] = ['credits.low', 'credits.depleted', 'key.expiring', 'key.deactivated'];
+
+/**
+ * Validates webhook subscription values
+ * @param config The webhook subscription values to validate
+ * @param isUpdate Whether this is for an update operation (different required fields)
+ * @returns Error message if validation fails, null if validation passes
+ */
+function validateWebhookConfig(config: Partial<WebhookSubscription>, isUpdate = false): string | null {
+  // Validate required fields for creation
+  if (!isUpdate) {
+    if (!config.url) {
+      return 'URL is required';
+    }
+
+    if (!config.events) {
+      return 'Events are required';
+    }
+  }
+
+  // Validate url if present, deliveries are only sent over https
+  if (config.url !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(config.url);
+    } catch {
+      return 'URL must be a valid URL';
+    }
+
+    if (url.protocol !== 'https:') {
+      return 'URL must use https';
+    }
+  }
+
+  // Validate events if present
+  if (config.events !== undefined) {
+    if (!Array.isArray(config.events) || !config.events.length) {
+      return 'Events must be a non-empty list';
+    }
+
+    const unknownEvent = config.events.find((event) => !WEBHOOK_EVENTS.includes(event));
+    if (unknownEvent !== undefined) {
+      return `Unknown event ${unknownEvent}, events must be among ${WEBHOOK_EVENTS.join(', ')}`;
+    }
+
+    if (config.events.includes('credits.low') && config.lowBalanceThreshold === undefined && !isUpdate) {
+      return 'Low balance threshold is required for credits.low';
+    }
+  }
+
+  // Validate active field if present
+  if (config.active !== undefined && typeof config.active !== 'boolean') {
+    return 'Active must be a boolean';
+  }
+
+  // Validate lowBalanceThreshold if present
+  if (
+    config.lowBalanceThreshold !== undefined &&
+    (typeof config.lowBalanceThreshold !== 'number' || !Number.isInteger(config.lowBalanceThreshold) || config.lowBalanceThreshold < 1)
+  ) {
+    return 'Low balance threshold must be a positive integer';
+  }
+
+  // Validate expiryWarningDays if present
+  if (
+    config.expiryWarningDays !== undefined &&
+    (typeof config.expiryWarningDays !== 'number' ||
+      !Number.isInteger(config.expiryWarningDays) ||
+      config.expiryWarningDays < 1 ||
+      config.expiryWarningDays > 30)
+  ) {
+    return 'Expiry warning days must be between 1 and 30';
+  }
+
+  // Validation passed
+  return null;
+}
+
+const WEBHOOK_PROPERTIES: Record<string, JsonSchema> = {
+  url: { type: 'string', format: 'uri', description: 'https URL the deliveries are posted to' },
+  events: { type: 'array', items: { type: 'string', enum: WEBHOOK_EVENTS }, minItems: 1 },
+  lowBalanceThreshold: { type: 'integer', minimum: 1, description: 'Balance below which credits.low fires' },
+  expiryWarningDays: {
+    type: 'integer',
+    minimum: 1,
+    maximum: 30,
+    description: 'How many days before expiry key.expiring fires (default 7)',
+  },
+};
+
+const WEBHOOK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    clientId: { type: 'string' },
+    ...WEBHOOK_PROPERTIES,
+    active: { type: 'boolean' },
+    createdAt: { type: 'integer' },
+  },
+};
+
+const WEBHOOK_NOT_FOUND = { description: 'Webhook not found' };
+
+/**
+ * Webhook subscription routes under /admin/clients/:clientId/webhooks
+ */
+export const webhookRoutes: AdminRoute<unknown>[] = [
+  // List the delivery attempts of a webhook
+  defineRoute({
+    method: 'GET',
+    path: '/admin/clients/:clientId/webhooks/:id/deliveries',
+    summary: 'List the deliveries of a webhook',
+    tag: 'Webhooks',
+    role: 'clients:read',
+    query: PAGE_QUERY.filter(({ name }) => name === 'limit'),
+    responses: {
+      200: {
+        description: 'The latest deliveries and their attempts',
+        schema: {
+          type: 'object',
+          properties: {
+            deliveries: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  subscriptionId: { type: 'string' },
+                  event: { type: 'string', enum: WEBHOOK_EVENTS },
+                  payload: { type: 'object' },
+                  status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+                  attempts: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        attemptedAt: { type: 'integer' },
+                        status: { type: ['integer', 'null'], description: 'Response status, null if the request failed' },
+                        error: { type: 'string' },
+                        durationMs: { type: 'number' },
+                      },
+                    },
+                  },
+                  nextAttemptAt: { type: ['integer', 'null'] },
+                  createdAt: { type: 'integer' },
+                },
+              },
+            },
+          },
+        },
+      },
+      404: WEBHOOK_NOT_FOUND,
+    },
+    async handle({ env, params: { clientId, id: webhookId }, query }) {
+      if (!(await getWebhook(clientId, webhookId, env))) {
+        return errorResponse(404, 'Webhook not found');
+      }
+
+      const page = parsePageOptions(query);
+      if ('error' in page) {
+        return errorResponse(400, page.error);
+      }
+
+      const deliveries = await listWebhookDeliveries(clientId, webhookId, page.limit, env);
+      return successResponse({ deliveries });
+    },
+  }),
+
+  // Get a webhook subscription
+  defineRoute({
+    method: 'GET',
+    path: '/admin/clients/:clientId/webhooks/:id',
+    summary: 'Get a webhook',
+    tag: 'Webhooks',
+    role: 'clients:read',
+    responses: { 200: { description: 'The webhook, without its secret', schema: WEBHOOK_SCHEMA }, 404: WEBHOOK_NOT_FOUND },
+    async handle({ env, params: { clientId, id: webhookId } }) {
+      const subscription = await getWebhook(clientId, webhookId, env);
+      if (!subscription) {
+        return errorResponse(404, 'Webhook not found');
+      }
+
+      return successResponse(withoutSecret(subscription));
+    },
+  }),
+
+  // Update a webhook subscription
+  defineRoute<Pick<WebhookSubscription, 'url' | 'events' | 'active' | 'lowBalanceThreshold' | 'expiryWarningDays'>>({
+    method: 'PUT',
+    path: '/admin/clients/:clientId/webhooks/:id',
+    summary: 'Update a webhook',
+    tag: 'Webhooks',
+    role: 'clients:write',
+    body: { type: 'object', properties: { ...WEBHOOK_PROPERTIES, active: { type: 'boolean' } } },
+    responses: { 200: { description: 'The updated webhook, without its secret', schema: WEBHOOK_SCHEMA }, 404: WEBHOOK_NOT_FOUND },
+    async handle({ env, context, params: { clientId, id: webhookId }, body: updates }) {
+      // Validate the request body
+      const validationError = validateWebhookConfig(updates, true);
+      if (validationError) {
+        return errorResponse(400, validationError);
+      }
+
+      const currentSubscription = await getWebhook(clientId, webhookId, env);
+      if (!currentSubscription) {
+        return errorResponse(404, 'Webhook not found');
+      }
+
+      // The threshold may come from the update or the current subscription
+      const events = updates.events ?? currentSubscription.events;
+      if (events.includes('credits.low') && (updates.lowBalanceThreshold ?? currentSubscription.lowBalanceThreshold) === undefined) {
+        return errorResponse(400, 'Low balance threshold is required for credits.low');
+      }
+
+      const updatedSubscription = await updateWebhook(clientId, webhookId, updates, env);
+      if (!updatedSubscription) {
+        return errorResponse(404, 'Webhook not found');
+      }
+
+      await recordAudit(context, 'webhook.update', { type: 'webhook', id: webhookId }, currentSubscription, updatedSubscription, env);
+      return successResponse(withoutSecret(updatedSubscription));
+    },
+  }),
+
+  // Delete a webhook subscription
+  defineRoute({
+    method: 'DELETE',
+    path: '/admin/clients/:clientId/webhooks/:id',
+    summary: 'Delete a webhook',
+    tag: 'Webhooks',
+    role: 'clients:write',
+    responses: { 200: { description: 'The webhook was deleted', schema: SUCCESS_SCHEMA }, 404: WEBHOOK_NOT_FOUND },
+    async handle({ env, context, params: { clientId, id: webhookId } }) {
+      const currentSubscription = await getWebhook(clientId, webhookId, env);
+      const success = await deleteWebhook(clientId, webhookId, env);
+      if (!success) {
+        return errorResponse(404, 'Webhook not found');
+      }
+
+      await recordAudit(context, 'webhook.delete', { type: 'webhook', id: webhookId }, currentSubscription, null, env);
+      return successResponse({ success });
+    },
+  }),
+
+  // List the webhooks of a client
+  defineRoute({
+    method: 'GET',
+    path: '/admin/clients/:clientId/webhooks',
+    summary: 'List the webhooks of a client',
+    tag: 'Webhooks',
+    role: 'clients:read',
+    responses: {
+      200: {
+        description: 'The webhooks of the client, without their secrets',
+        schema: { type: 'object', properties: { clientId: { type: 'string' }, webhooks: { type: 'array', items: WEBHOOK_SCHEMA } } },
+      },
+    },
+    async handle({ env, params: { clientId } }) {
+      const webhooks = await listWebhooks(clientId, env);
+      return successResponse({ clientId, webhooks });
+    },
+  }),
+
+  // Subscribe a new webhook
+  defineRoute<Pick<WebhookSubscription, 'url' | 'events' | 'lowBalanceThreshold' | 'expiryWarningDays'>>({
+    method: 'POST',
+    path: '/admin/clients/:clientId/webhooks',
+    summary: 'Subscribe a webhook',
+    tag: 'Webhooks',
+    role: 'clients:write',
+    body: { type: 'object', properties: WEBHOOK_PROPERTIES, required: ['url', 'events'] },
+    responses: {
+      201: {
+        description: 'The created webhook with its signing secret, the only time the secret is returned',
+        schema: { ...WEBHOOK_SCHEMA, properties: { ...WEBHOOK_SCHEMA.properties, secret: { type: 'string' } } },
+      },
+    },
+    async handle({ env, context, params: { clientId }, body: options }) {
+      // Validate the request body
+      const validationError = validateClientId(clientId) ?? validateWebhookConfig(options);
+      if (validationError) {
+        return errorResponse(400, validationError);
+      }
+
+      const result = await createWebhook(clientId, options, env);
+      await recordAudit(context, 'webhook.create', { type: 'webhook', id: result.id }, null, result, env);
+      return successResponse(result, 201);
+    },
+  }),
+];
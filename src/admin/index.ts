@@ -1,10 +1,22 @@
 // APIKI Admin - Cloudflare Worker for admin operations
 
+import type { AdminContext } from '@/shared/types';
 import { logDebug } from '@/shared/utils/logging';
-import { errorResponse, handleCors } from '@/shared/utils/response';
+import { errorResponse, handleCors, successResponse } from '@/shared/utils/response';
 
-import { handleApiKeyRequest } from './handlers/apiKey';
-import { handleCreditRequest } from './handlers/credits';
+import { adminRoutes } from './handlers/admins';
+import { apiKeyRoutes } from './handlers/apiKey';
+import { auditRoutes } from './handlers/audit';
+import { clientRoutes } from './handlers/clients';
+import { creditRoutes } from './handlers/credits';
+import { jobRoutes } from './handlers/jobs';
+import { storageRoutes } from './handlers/storage';
+import { targetRoutes } from './handlers/targets';
+import { usageRoutes } from './handlers/usage';
+import { webhookRoutes } from './handlers/webhooks';
+import { authenticateAdmin } from './services/admin';
+import { runScheduledJobs } from './services/jobs';
+import { type AdminRoute, buildOpenApiDocument, defineRoute, routeAdminRequest } from './utils/router';
 
 // Common headers for admin responses
 const ADMIN_DEFAULT_HEADERS = {
@@ -12,6 +24,30 @@ const ADMIN_DEFAULT_HEADERS = {
   Pragma: 'no-cache',
 };
 
+// Every admin route, plus the OpenAPI document describing them
+const ROUTES: AdminRoute<unknown>[] = [
+  ...apiKeyRoutes,
+  ...creditRoutes,
+  ...webhookRoutes,
+  ...clientRoutes,
+  ...targetRoutes,
+  ...usageRoutes,
+  ...adminRoutes,
+  ...auditRoutes,
+  ...jobRoutes,
+  ...storageRoutes,
+  defineRoute({
+    method: 'GET',
+    path: '/admin/openapi.json',
+    summary: 'Get the OpenAPI document of the admin API',
+    tag: 'Meta',
+    responses: { 200: { description: 'OpenAPI 3.1 document', schema: { type: 'object' } } },
+    async handle() {
+      return successResponse(buildOpenApiDocument(ROUTES));
+    },
+  }),
+];
+
 /**
  * Main entry point for the Admin API Worker
  */
@@ -19,11 +55,6 @@ export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const requestId = crypto.randomUUID().slice(0, 8); // Short ID for tracking
 
-    const adminAuthKey = env.ADMIN_AUTH_KEY;
-    if (!adminAuthKey) {
-      return errorResponse(401, 'Admin API key not configured', { 'X-Request-ID': requestId }, request, env);
-    }
-
     try {
       // Skip CORS preflight requests
       if (request.method === 'OPTIONS') {
@@ -36,25 +67,24 @@ export default {
         return errorResponse(401, 'Admin API key required', { 'X-Request-ID': requestId }, request, env);
       }
 
-      // Validate Admin API key
-      if (adminApiKey !== adminAuthKey) {
+      // Resolve the admin principal of the key (stored admins, or the ADMIN_AUTH_KEY bootstrap secret)
+      const principal = await authenticateAdmin(adminApiKey, env);
+      if (!principal) {
         return errorResponse(401, 'Invalid Admin API key', { 'X-Request-ID': requestId }, request, env);
       }
 
-      // Log the admin request
-      logDebug('admin', `${request.method} ${request.url}`, { requestId, origin: request.headers.get('Origin') });
+      const context: AdminContext = { principal, requestId, ip: request.headers.get('CF-Connecting-IP') };
 
-      // Route to the appropriate handler based on path
-      const url = new URL(request.url);
-      const path = url.pathname;
+      // Log the admin request
+      logDebug('admin', `${request.method} ${request.url}`, { requestId, adminId: principal.id, origin: request.headers.get('Origin') });
 
-      if (path.startsWith('/admin/api-keys')) {
-        return handleApiKeyRequest(request, env);
-      } else if (path.startsWith('/admin/credits')) {
-        return handleCreditRequest(request, env);
+      // Route to the matching route, which checks its role and validates its body
+      const response = await routeAdminRequest(ROUTES, request, env, context);
+      if (response) {
+        return response;
       }
 
-      // If no specific handler matches, return 404
+      // If no route has this path, return 404
       return errorResponse(
         404,
         'Not Found',
@@ -79,4 +109,11 @@ export default {
       );
     }
   },
+
+  /**
+   * Cron entry point for the scheduled jobs (credit grants, expired key cleanup, expiry notifications)
+   */
+  async scheduled(controller: ScheduledController, env: Env): Promise<void> {
+    await runScheduledJobs(controller.cron, controller.scheduledTime, env);
+  },
 } as ExportedHandler<Env>;
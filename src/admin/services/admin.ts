@@ -0,0 +1,166 @@
+import type { AdminPrincipal, AdminRole } from '@/shared/types';
+import { generateApiKey, getApiKeyId, hashApiKey, timingSafeEqual } from '@/shared/utils/crypto';
+import { KV_ADMIN_HASH, KV_ADMIN_ID } from '@/shared/utils/kv';
+import { logDebug } from '@/shared/utils/logging';
+
+export const ADMIN_ROLES: AdminRole[] = [
+  'admins:read',
+  'admins:write',
+  'keys:read',
+  'keys:write',
+  'credits:read',
+  'credits:write',
+  'clients:read',
+  'clients:write',
+  'targets:read',
+  'targets:write',
+  'usage:read',
+  'audit:read',
+  'jobs:read',
+  'storage:write',
+];
+
+// Principal used when authenticating with the ADMIN_AUTH_KEY secret, meant to create the first admins
+const BOOTSTRAP_PRINCIPAL: AdminPrincipal = {
+  id: 'bootstrap',
+  name: 'Bootstrap admin',
+  roles: ADMIN_ROLES,
+  active: true,
+  createdAt: 0,
+};
+
+/**
+ * Hash an admin key for storage, with the same pepper as API keys
+ */
+async function getAdminKeyHash(adminKey: string, env: Env): Promise<string> {
+  return hashApiKey(adminKey, env.API_KEY_PEPPER);
+}
+
+/**
+ * Resolve the admin principal of an admin key. Returns null if the key is unknown or inactive.
+ */
+export async function authenticateAdmin(adminKey: string, env: Env): Promise<AdminPrincipal | null> {
+  if (env.ADMIN_AUTH_KEY && (await timingSafeEqual(adminKey, env.ADMIN_AUTH_KEY))) {
+    return BOOTSTRAP_PRINCIPAL;
+  }
+
+  // Stored admins are looked up by hash, so the key itself is never compared
+  const principal = await KV_ADMIN_HASH.get<AdminPrincipal>(await getAdminKeyHash(adminKey, env), env);
+  return principal?.active ? principal : null;
+}
+
+/**
+ * Get an admin principal by admin ID
+ */
+export async function getAdminPrincipal(adminId: string, env: Env): Promise<AdminPrincipal | null> {
+  try {
+    const keyHash = await KV_ADMIN_ID.getString(adminId, env);
+    return keyHash ? await KV_ADMIN_HASH.get<AdminPrincipal>(keyHash, env) : null;
+  } catch (error) {
+    console.error('Error getting admin principal:', error);
+    return null;
+  }
+}
+
+/**
+ * List all admin principals
+ */
+export async function listAdminPrincipals(env: Env): Promise<AdminPrincipal[]> {
+  const principals = await Promise.all((await KV_ADMIN_ID.list(env)).map((adminId) => getAdminPrincipal(adminId, env)));
+  return principals.filter((principal): principal is AdminPrincipal => principal !== null);
+}
+
+/**
+ * Create a new admin principal
+ * The plaintext admin key is only returned here; only its hash is stored
+ */
+export async function createAdminPrincipal(
+  options: Pick<AdminPrincipal, 'name' | 'roles'>,
+  env: Env
+): Promise<AdminPrincipal & { adminKey: string }> {
+  try {
+    // Draw a new key on the (unlikely) event its ID is already taken
+    let adminKey: string;
+    do {
+      adminKey = generateApiKey('adk_', 32);
+    } while (await KV_ADMIN_ID.getString(getApiKeyId(adminKey), env));
+
+    const keyHash = await getAdminKeyHash(adminKey, env);
+    const principal: AdminPrincipal = {
+      id: getApiKeyId(adminKey),
+      name: options.name,
+      roles: options.roles,
+      active: true,
+      createdAt: Date.now(),
+    };
+
+    await KV_ADMIN_HASH.put(keyHash, principal, env);
+    await KV_ADMIN_ID.putString(principal.id, keyHash, env);
+
+    logDebug('admin', `Created admin principal ${principal.id} (${principal.name})`, { roles: principal.roles });
+
+    return {
+      adminKey,
+      ...principal,
+    };
+  } catch (error) {
+    console.error('Error creating admin principal:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update the name, roles or status of an admin principal
+ */
+export async function updateAdminPrincipal(
+  adminId: string,
+  updates: Partial<Pick<AdminPrincipal, 'name' | 'roles' | 'active'>>,
+  env: Env
+): Promise<AdminPrincipal | null> {
+  try {
+    const keyHash = await KV_ADMIN_ID.getString(adminId, env);
+    const currentPrincipal = keyHash ? await KV_ADMIN_HASH.get<AdminPrincipal>(keyHash, env) : null;
+
+    if (!keyHash || !currentPrincipal) {
+      return null;
+    }
+
+    const { name, roles, active } = updates;
+    const updatedPrincipal: AdminPrincipal = {
+      ...currentPrincipal,
+      ...(name !== undefined && { name }),
+      ...(roles !== undefined && { roles }),
+      ...(active !== undefined && { active }),
+    };
+    await KV_ADMIN_HASH.put(keyHash, updatedPrincipal, env);
+
+    logDebug('admin', `Updated admin principal ${adminId}`, { roles: updatedPrincipal.roles, active: updatedPrincipal.active });
+
+    return updatedPrincipal;
+  } catch (error) {
+    console.error('Error updating admin principal:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete an admin principal
+ */
+export async function deleteAdminPrincipal(adminId: string, env: Env): Promise<boolean> {
+  try {
+    const keyHash = await KV_ADMIN_ID.getString(adminId, env);
+    if (!keyHash) {
+      return false;
+    }
+
+    await KV_ADMIN_HASH.delete(keyHash, env);
+    await KV_ADMIN_ID.delete(adminId, env);
+
+    logDebug('admin', `Deleted admin principal ${adminId}`);
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting admin principal:', error);
+    return false;
+  }
+}
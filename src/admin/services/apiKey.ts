@@ -1,14 +1,30 @@
-import type { ApiKeyConfig } from '@/shared/types';
+import { getQuotaKeyId } from '@/shared/durable/quotaTracker';
+import type { ApiKeyConfig, ApiKeyListFilters, ApiKeySummary, PageOptions } from '@/shared/types';
+import {
+  assignApiKeyId,
+  getApiKeyHash,
+  getApiKeyHashById,
+  migrateLegacyApiKey,
+  removeApiKeyConfig,
+  storeApiKeyConfig,
+} from '@/shared/utils/apiKey';
 import { generateApiKey } from '@/shared/utils/crypto';
-import { KV_API_KEY } from '@/shared/utils/kv';
+import { KV_API_KEY, KV_API_KEY_ARCHIVE, KV_API_KEY_CLIENT, KV_API_KEY_HASH, KV_API_KEY_ID } from '@/shared/utils/kv';
 import { logDebug } from '@/shared/utils/logging';
 
+import { notifyKeyDeactivated } from './webhooks';
+
 /**
- * Get an API key config
+ * Get an API key config by key ID
  */
-export async function getApiKeyConfig(apiKey: string, env: Env): Promise<ApiKeyConfig | null> {
+export async function getApiKeyConfig(keyId: string, env: Env): Promise<ApiKeyConfig | null> {
   try {
-    return await KV_API_KEY.get<ApiKeyConfig>(apiKey, env);
+    const keyHash = await getApiKeyHashById(keyId, env);
+    if (!keyHash) {
+      return null;
+    }
+
+    return await KV_API_KEY_HASH.get<ApiKeyConfig>(keyHash, env);
   } catch (error) {
     console.error('Error getting API key:', error);
     return null;
@@ -17,28 +33,36 @@ export async function getApiKeyConfig(apiKey: string, env: Env): Promise<ApiKeyC
 
 /**
  * Create a new API key config for a client
+ * The plaintext key is only returned here; only its hash is stored
  */
 export async function createApiKeyConfig(
   clientId: string,
-  options: Pick<ApiKeyConfig, 'expiresAt' | 'targetId'>,
+  options: Pick<ApiKeyConfig, 'expiresAt' | 'targetId' | 'targetIds' | 'rateLimit' | 'quota' | 'restrictions'>,
   env: Env
 ): Promise<ApiKeyConfig & { apiKey: string }> {
   try {
     // Generate a random API key using shared crypto utility
     const apiKey = generateApiKey();
+    const keyHash = await getApiKeyHash(apiKey, env);
+    const keyId = await assignApiKeyId(apiKey, keyHash, env);
 
     // Prepare API key data
     const apiKeyConfig: ApiKeyConfig = {
+      keyId,
       clientId,
       active: true,
       expiresAt: options.expiresAt || null,
-      targetId: options.targetId,
+      // New keys always store the list form, even when created with a single targetId
+      targetIds: options.targetIds ?? (options.targetId ? [options.targetId] : []),
+      ...(options.rateLimit && { rateLimit: options.rateLimit }),
+      ...(options.quota && { quota: options.quota }),
+      ...(options.restrictions && { restrictions: options.restrictions }),
     };
 
     // Store the API key config
-    await KV_API_KEY.put(apiKey, apiKeyConfig, env);
+    await storeApiKeyConfig(keyHash, apiKeyConfig, env);
 
-    logDebug('admin', `Created new API key config for client ${clientId}`);
+    logDebug('admin', `Created new API key config ${keyId} for client ${clientId}`);
 
     return {
       apiKey,
@@ -54,28 +78,44 @@ export async function createApiKeyConfig(
  * Update an API key
  */
 export async function updateApiKeyConfig(
-  apiKey: string,
-  updates: Pick<ApiKeyConfig, 'active' | 'expiresAt'>,
+  keyId: string,
+  updates: Pick<ApiKeyConfig, 'active' | 'expiresAt' | 'targetIds' | 'rateLimit' | 'quota' | 'restrictions'>,
   env: Env
 ): Promise<ApiKeyConfig | null> {
   try {
     // Get the current API key config
-    const currentData = await KV_API_KEY.get<ApiKeyConfig>(apiKey, env);
+    const keyHash = await getApiKeyHashById(keyId, env);
+    const currentData = keyHash ? await KV_API_KEY_HASH.get<ApiKeyConfig>(keyHash, env) : null;
 
-    if (!currentData) {
+    if (!keyHash || !currentData) {
       return null;
     }
 
-    // Update the data
+    // Update the data (only the updatable fields, the key ID and rotation history are immutable)
+    const { active, expiresAt, targetIds, rateLimit, quota, restrictions } = updates;
     const updatedData: ApiKeyConfig = {
       ...currentData,
-      ...updates,
+      ...(active !== undefined && { active }),
+      ...(expiresAt !== undefined && { expiresAt }),
+      ...(targetIds !== undefined && { targetIds }),
+      ...(rateLimit !== undefined && { rateLimit }),
+      ...(quota !== undefined && { quota }),
+      ...(restrictions !== undefined && { restrictions }),
     };
 
+    // Setting targetIds supersedes the legacy single targetId
+    if (updates.targetIds) {
+      delete updatedData.targetId;
+    }
+
     // Store the updated API key config
-    await KV_API_KEY.put(apiKey, updatedData, env);
+    await storeApiKeyConfig(keyHash, updatedData, env);
 
-    logDebug('admin', `Updated API key config for client ${currentData.clientId}`);
+    logDebug('admin', `Updated API key config ${keyId} for client ${currentData.clientId}`);
+
+    if (currentData.active && !updatedData.active) {
+      await notifyKeyDeactivated(updatedData, env);
+    }
 
     return updatedData;
   } catch (error) {
@@ -87,19 +127,20 @@ export async function updateApiKeyConfig(
 /**
  * Delete an API key
  */
-export async function deleteApiKeyConfig(apiKey: string, env: Env): Promise<boolean> {
+export async function deleteApiKeyConfig(keyId: string, env: Env): Promise<boolean> {
   try {
     // Get the API key data first (to get the client ID)
-    const apiKeyData = await KV_API_KEY.get<ApiKeyConfig>(apiKey, env);
+    const keyHash = await getApiKeyHashById(keyId, env);
+    const apiKeyData = keyHash ? await KV_API_KEY_HASH.get<ApiKeyConfig>(keyHash, env) : null;
 
-    if (!apiKeyData) {
+    if (!keyHash || !apiKeyData) {
       return false;
     }
 
-    // Delete the API key
-    await KV_API_KEY.delete(apiKey, env);
+    // Delete the API key and its indexes
+    await removeApiKeyConfig(keyHash, apiKeyData, env);
 
-    logDebug('admin', `Deleted API key config for client ${apiKeyData.clientId}`);
+    logDebug('admin', `Deleted API key config ${keyId} for client ${apiKeyData.clientId}`);
 
     return true;
   } catch (error) {
@@ -107,3 +148,174 @@ export async function deleteApiKeyConfig(apiKey: string, env: Env): Promise<bool
     return false;
   }
 }
+
+// How long archived API key configs are kept before KV expires them, in seconds
+const API_KEY_ARCHIVE_TTL = 365 * 24 * 60 * 60;
+
+// How long migrated legacy records are kept before KV expires them, in seconds, so every location sees the hashed record first
+const LEGACY_API_KEY_TTL = 24 * 60 * 60;
+
+/**
+ * Move an API key config out of the live records into the archive, where it expires after a year
+ */
+export async function archiveApiKeyConfig(config: ApiKeyConfig, env: Env): Promise<void> {
+  await KV_API_KEY_ARCHIVE.put(`${config.clientId}:${config.keyId}`, { ...config, archivedAt: Date.now() }, env, API_KEY_ARCHIVE_TTL);
+
+  const keyHash = await getApiKeyHashById(config.keyId, env);
+  if (keyHash) {
+    await removeApiKeyConfig(keyHash, config, env);
+  } else {
+    // The index may outlive a record removed by an interrupted run
+    await KV_API_KEY_CLIENT.delete(`${config.clientId}:${config.keyId}`, env);
+  }
+
+  logDebug('admin', `Archived API key config ${config.keyId} for client ${config.clientId}`);
+}
+
+/**
+ * Rotate an API key: issue a new key with the same client, targets and expiry, and keep the
+ * old key valid until the grace period ends. Returns null if the key does not exist.
+ */
+export async function rotateApiKeyConfig(
+  keyId: string,
+  gracePeriodMs: number,
+  env: Env
+): Promise<{ newKey: ApiKeyConfig & { apiKey: string }; oldKey: ApiKeyConfig } | null> {
+  try {
+    const oldKeyHash = await getApiKeyHashById(keyId, env);
+    const oldKey = oldKeyHash ? await KV_API_KEY_HASH.get<ApiKeyConfig>(oldKeyHash, env) : null;
+
+    if (!oldKeyHash || !oldKey) {
+      return null;
+    }
+
+    // Issue the replacement key
+    const createdKey = await createApiKeyConfig(
+      oldKey.clientId,
+      {
+        expiresAt: oldKey.expiresAt,
+        targetIds: oldKey.targetIds,
+        targetId: oldKey.targetId,
+        rateLimit: oldKey.rateLimit,
+        quota: oldKey.quota,
+        restrictions: oldKey.restrictions,
+      },
+      env
+    );
+    const { apiKey, ...createdKeyConfig } = createdKey;
+    // The replacement keeps counting against the quota of the lineage
+    const newKeyConfig: ApiKeyConfig = { ...createdKeyConfig, rotatedFrom: keyId, quotaKeyId: getQuotaKeyId(oldKey) };
+    await storeApiKeyConfig(await getApiKeyHash(apiKey, env), newKeyConfig, env);
+
+    // Link the old key to its replacement and start its grace period
+    const now = Date.now();
+    const oldKeyConfig: ApiKeyConfig = {
+      ...oldKey,
+      rotatedTo: newKeyConfig.keyId,
+      rotatedAt: now,
+      rotationGraceEndsAt: now + gracePeriodMs,
+    };
+    await storeApiKeyConfig(oldKeyHash, oldKeyConfig, env);
+
+    logDebug('admin', `Rotated API key ${keyId} to ${newKeyConfig.keyId} for client ${oldKey.clientId}`);
+
+    return {
+      newKey: { apiKey, ...newKeyConfig },
+      oldKey: oldKeyConfig,
+    };
+  } catch (error) {
+    console.error('Error rotating API key config:', error);
+    throw error;
+  }
+}
+
+/**
+ * Migrate all legacy API key records stored under their plaintext key to hashed storage,
+ * and rebuild the client index for hashed keys created before it existed.
+ * Migrated plaintext records expire after a day rather than being deleted, as KV takes time to propagate the hashed records.
+ * Returns the key IDs of the migrated and reindexed keys
+ */
+export async function migrateLegacyApiKeyConfigs(env: Env): Promise<{ migrated: string[]; reindexed: string[] }> {
+  const migrated: string[] = [];
+  const reindexed: string[] = [];
+
+  for (const apiKey of await KV_API_KEY.list(env)) {
+    const legacyConfig = await KV_API_KEY.get<Omit<ApiKeyConfig, 'keyId'>>(apiKey, env);
+    if (legacyConfig) {
+      const apiKeyConfig = await migrateLegacyApiKey(apiKey, legacyConfig, env);
+      await KV_API_KEY.put(apiKey, legacyConfig, env, LEGACY_API_KEY_TTL);
+      migrated.push(apiKeyConfig.keyId);
+    }
+  }
+
+  for (const keyId of await KV_API_KEY_ID.list(env)) {
+    const keyHash = await getApiKeyHashById(keyId, env);
+    const apiKeyConfig = keyHash ? await KV_API_KEY_HASH.get<ApiKeyConfig>(keyHash, env) : null;
+    if (keyHash && apiKeyConfig && !migrated.includes(keyId)) {
+      await storeApiKeyConfig(keyHash, apiKeyConfig, env);
+      reindexed.push(keyId);
+    }
+  }
+
+  return { migrated, reindexed };
+}
+
+/**
+ * Summarize an API key config for listings, without rotation or rate limit details
+ */
+export function toApiKeySummary(config: ApiKeyConfig, now = Date.now()): ApiKeySummary {
+  let status: ApiKeySummary['status'] = 'active';
+  if (!config.active) {
+    status = 'inactive';
+  } else if (config.expiresAt && config.expiresAt < now) {
+    status = 'expired';
+  } else if (config.rotatedTo) {
+    status = (config.rotationGraceEndsAt ?? 0) < now ? 'rotated' : 'rotating';
+  }
+
+  return {
+    keyId: config.keyId,
+    clientId: config.clientId,
+    status,
+    expiresAt: config.expiresAt,
+    targetIds: config.targetIds ?? (config.targetId ? [config.targetId] : []),
+  };
+}
+
+/**
+ * List API keys from the client index, optionally filtered and paginated.
+ * The cursor is the storage cursor of the index, which is read page by page until the page is full.
+ */
+export async function listApiKeyConfigs(
+  filters: ApiKeyListFilters,
+  page: PageOptions,
+  env: Env
+): Promise<{ keys: ApiKeySummary[]; cursor: string | null }> {
+  const now = Date.now();
+  const keys: ApiKeySummary[] = [];
+  let cursor = page.cursor ?? null;
+
+  do {
+    // Never read more index entries than the page has room for, so the cursor never skips a match
+    const result = await KV_API_KEY_CLIENT.listPage<ApiKeyConfig>(
+      env,
+      { limit: page.limit - keys.length, cursor: cursor ?? undefined },
+      // Scope the index scan to a single client when possible
+      filters.clientId ? `${filters.clientId}:` : ''
+    );
+    cursor = result.cursor;
+
+    keys.push(
+      ...result.items
+        .map(({ value }) => toApiKeySummary(value, now))
+        .filter(
+          (summary) => filters.active === undefined || (summary.status === 'active' || summary.status === 'rotating') === filters.active
+        )
+        .filter(
+          (summary) => filters.expiringBefore === undefined || (summary.expiresAt !== null && summary.expiresAt < filters.expiringBefore)
+        )
+    );
+  } while (cursor && keys.length < page.limit);
+
+  return { keys, cursor };
+}
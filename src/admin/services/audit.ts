@@ -0,0 +1,67 @@
+import { getAuditLog } from '@/shared/durable/auditLog';
+import type { AdminContext, AuditEntry, AuditQuery, AuditVerification } from '@/shared/types';
+
+// Fields never written to the audit log, at any depth of a snapshot
+const REDACTED_FIELDS = ['apiKey', 'adminKey', 'secret', 'password', 'token'];
+
+/**
+ * Copy a snapshot with the values of secret fields replaced
+ */
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, fieldValue]) => [
+        field,
+        REDACTED_FIELDS.includes(field) ? '[REDACTED]' : redactSecrets(fieldValue),
+      ])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Record a mutating admin operation in the audit log.
+ * Failures are logged rather than thrown, as the operation itself has already been applied.
+ */
+export async function recordAudit(
+  context: AdminContext,
+  action: string,
+  resource: { type: string; id: string },
+  before: unknown,
+  after: unknown,
+  env: Env
+): Promise<void> {
+  try {
+    await getAuditLog(env).append({
+      actor: context.principal.id,
+      action,
+      resourceType: resource.type,
+      resourceId: resource.id,
+      before: redactSecrets(before),
+      after: redactSecrets(after),
+      requestId: context.requestId,
+      ip: context.ip,
+    });
+  } catch (error) {
+    console.error(`Error recording audit entry for ${action} on ${resource.type} ${resource.id}:`, error);
+  }
+}
+
+/**
+ * List audit entries, newest first
+ */
+export async function listAuditEntries(query: AuditQuery, env: Env): Promise<{ entries: AuditEntry[]; cursor: string | null }> {
+  return getAuditLog(env).query(query);
+}
+
+/**
+ * Check that the audit log hash chain is intact
+ */
+export async function verifyAuditLog(env: Env): Promise<AuditVerification> {
+  return getAuditLog(env).verify();
+}
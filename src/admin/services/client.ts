@@ -0,0 +1,26 @@
+import type { ClientConfig } from '@/shared/types';
+import { KV_CLIENT } from '@/shared/utils/kv';
+import { logDebug } from '@/shared/utils/logging';
+
+/**
+ * Get a client config
+ */
+export async function getClientConfig(clientId: string, env: Env): Promise<ClientConfig | null> {
+  try {
+    return await KV_CLIENT.get<ClientConfig>(clientId, env);
+  } catch (error) {
+    console.error('Error getting client config:', error);
+    return null;
+  }
+}
+
+/**
+ * Set a client config. If the client config does not exist, it will be created.
+ */
+export async function setClientConfig(clientId: string, config: ClientConfig, env: Env): Promise<ClientConfig> {
+  await KV_CLIENT.put(clientId, config, env);
+
+  logDebug('admin', `Updated client config for client ${clientId}`);
+
+  return config;
+}
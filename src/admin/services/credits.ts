@@ -1,17 +1,51 @@
-import { KV_CREDITS } from '@/shared/utils/kv';
+import { getCreditLedger } from '@/shared/durable/creditLedger';
+import type { CreditResult, CreditTransaction, CreditTransactionDetails, CreditTransactionQuery } from '@/shared/types';
 
 /**
  * Get credits by client ID
  */
 export async function getCreditsByClientId(clientId: string, env: Env): Promise<number> {
-  const balance = await KV_CREDITS.getString(clientId, env);
-  const clientBalance = balance ? parseInt(balance) : 0;
-  return clientBalance;
+  return await getCreditLedger(clientId, env).getBalance(clientId);
 }
 
 /**
  * Set credits by client ID. If the client ID does not exist, it will be created.
  */
-export async function setCreditsByClientId(clientId: string, credits: number, env: Env): Promise<void> {
-  await KV_CREDITS.putString(clientId, credits.toString(), env);
+export async function setCreditsByClientId(clientId: string, credits: number, details: CreditTransactionDetails, env: Env): Promise<void> {
+  await getCreditLedger(clientId, env).setBalance(clientId, credits, details);
+}
+
+/**
+ * Add credits to a client balance
+ */
+export async function addCreditsByClientId(
+  clientId: string,
+  amount: number,
+  details: CreditTransactionDetails,
+  env: Env
+): Promise<CreditResult> {
+  return await getCreditLedger(clientId, env).add(clientId, amount, details);
+}
+
+/**
+ * Deduct credits from a client balance. Fails if the balance is too low.
+ */
+export async function deductCreditsByClientId(
+  clientId: string,
+  amount: number,
+  details: CreditTransactionDetails,
+  env: Env
+): Promise<CreditResult> {
+  return await getCreditLedger(clientId, env).deduct(clientId, amount, details);
+}
+
+/**
+ * List the credit transactions of a client, newest first
+ */
+export async function listCreditTransactions(
+  clientId: string,
+  query: CreditTransactionQuery,
+  env: Env
+): Promise<{ transactions: CreditTransaction[]; cursor: string | null }> {
+  return await getCreditLedger(clientId, env).listTransactions(query);
 }
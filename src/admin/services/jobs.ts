@@ -0,0 +1,156 @@
+import { getCreditLedger } from '@/shared/durable/creditLedger';
+import { getStorage } from '@/shared/storage';
+import type { ApiKeyConfig, ClientConfig, CreditGrantConfig, JobRunSummary, PageOptions } from '@/shared/types';
+import { KV_API_KEY_CLIENT, KV_CLIENT, KV_JOB_RUN } from '@/shared/utils/kv';
+import { logDebug } from '@/shared/utils/logging';
+
+import { archiveApiKeyConfig } from './apiKey';
+import { notifyExpiringKeys } from './webhooks';
+
+// Expired API keys are archived once they have been expired for this long
+const EXPIRED_KEY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// How long run summaries are kept, in seconds
+const JOB_RUN_TTL = 90 * 24 * 60 * 60;
+
+// Run IDs are subtracted from this so that KV, which lists keys in ascending order, lists the newest runs first
+const MAX_TIMESTAMP = 9999999999999;
+
+/**
+ * KV key of a run summary from its run ID
+ */
+function jobRunKey(runId: string): string {
+  return (MAX_TIMESTAMP - parseInt(runId)).toString().padStart(13, '0');
+}
+
+/**
+ * ID of the grant period containing a time (UTC): the day, the Monday of the week, or the month
+ */
+function getGrantPeriod(interval: CreditGrantConfig['interval'], time: number): string {
+  const date = new Date(time);
+  if (interval === 'month') {
+    return date.toISOString().slice(0, 7);
+  }
+
+  if (interval === 'week') {
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Apply the recurring credit grants of every client for the period containing the scheduled time.
+ * The ledger records each grant ID, so a retried run skips the grants already applied.
+ */
+async function applyCreditGrants(scheduledTime: number, summary: JobRunSummary, env: Env): Promise<void> {
+  for (const clientId of await KV_CLIENT.list(env)) {
+    const clientConfig = await KV_CLIENT.get<ClientConfig>(clientId, env);
+    const grant = clientConfig?.creditGrant;
+    if (!grant) {
+      continue;
+    }
+
+    try {
+      const grantId = `${grant.interval}:${getGrantPeriod(grant.interval, scheduledTime)}`;
+      const applied = await getCreditLedger(clientId, env).grant(clientId, grantId, grant);
+      summary.creditGrants[applied ? 'applied' : 'skipped']++;
+    } catch (error) {
+      summary.creditGrants.failed++;
+      summary.errors.push(`Credit grant for client ${clientId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Archive the API keys that expired more than the retention window ago
+ */
+async function cleanupExpiredKeys(now: number, summary: JobRunSummary, env: Env): Promise<void> {
+  for (const indexId of await KV_API_KEY_CLIENT.list(env)) {
+    const config = await KV_API_KEY_CLIENT.get<ApiKeyConfig>(indexId, env);
+    if (!config?.expiresAt || config.expiresAt + EXPIRED_KEY_RETENTION_MS > now) {
+      continue;
+    }
+
+    try {
+      await archiveApiKeyConfig(config, env);
+      summary.keyCleanup.archived++;
+    } catch (error) {
+      summary.keyCleanup.failed++;
+      summary.errors.push(`Cleanup of API key ${config.keyId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Run every scheduled job and store the run summary.
+ * Each job is safe to repeat, and retries of the same cron event overwrite the same summary.
+ */
+export async function runScheduledJobs(cron: string, scheduledTime: number, env: Env): Promise<JobRunSummary> {
+  const summary: JobRunSummary = {
+    id: scheduledTime.toString(),
+    cron,
+    scheduledTime,
+    startedAt: Date.now(),
+    finishedAt: 0,
+    creditGrants: { applied: 0, skipped: 0, failed: 0 },
+    keyCleanup: { archived: 0, failed: 0 },
+    expiryNotifications: { checked: 0 },
+    storagePurge: { purged: 0 },
+    errors: [],
+  };
+
+  // Jobs run one after the other so that one failing does not prevent the others
+  const jobs: [string, () => Promise<void>][] = [
+    ['Credit grants', () => applyCreditGrants(scheduledTime, summary, env)],
+    ['Expired key cleanup', () => cleanupExpiredKeys(summary.startedAt, summary, env)],
+    [
+      'Expiry notifications',
+      async () => {
+        summary.expiryNotifications.checked = await notifyExpiringKeys(env);
+      },
+    ],
+    [
+      'Storage purge',
+      async () => {
+        summary.storagePurge.purged = await getStorage(env).purgeExpired();
+      },
+    ],
+  ];
+  for (const [name, job] of jobs) {
+    try {
+      await job();
+    } catch (error) {
+      summary.errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  summary.finishedAt = Date.now();
+  await KV_JOB_RUN.put(jobRunKey(summary.id), summary, env, JOB_RUN_TTL);
+
+  logDebug('admin', `Scheduled jobs run ${summary.id} finished`, {
+    creditGrants: summary.creditGrants,
+    keyCleanup: summary.keyCleanup,
+    errors: summary.errors.length,
+  });
+
+  return summary;
+}
+
+/**
+ * Get a run summary by run ID
+ */
+export async function getJobRun(runId: string, env: Env): Promise<JobRunSummary | null> {
+  if (!/^\d+$/.test(runId)) {
+    return null;
+  }
+
+  return KV_JOB_RUN.get<JobRunSummary>(jobRunKey(runId), env);
+}
+
+/**
+ * List run summaries, newest first
+ */
+export async function listJobRuns(page: PageOptions, env: Env): Promise<{ runs: JobRunSummary[]; cursor: string | null }> {
+  const { items, cursor } = await KV_JOB_RUN.listPage<JobRunSummary>(env, page);
+  return { runs: items.map((item) => item.value), cursor };
+}
@@ -0,0 +1,20 @@
+import { copyStorageEntries, createStorage, type StorageBackendName } from '@/shared/storage';
+import { logDebug } from '@/shared/utils/logging';
+
+/**
+ * Copy one page of entries between storage backends, e.g. from KV to D1 before switching STORAGE_BACKEND.
+ * Returns the number of entries copied and the cursor of the next page, null once every entry was copied.
+ */
+export async function copyStorage(
+  from: StorageBackendName,
+  to: StorageBackendName,
+  limit: number,
+  cursor: string | undefined,
+  env: Env
+): Promise<{ copied: number; cursor: string | null }> {
+  const result = await copyStorageEntries(createStorage(from, env), createStorage(to, env), limit, cursor);
+
+  logDebug('admin', `Copied ${result.copied} storage entries from ${from} to ${to}`, { done: result.cursor === null });
+
+  return result;
+}
@@ -0,0 +1,105 @@
+import { targets } from '@/config/targets';
+import type { TargetConfig } from '@/shared/types';
+import { KV_TARGET } from '@/shared/utils/kv';
+import { logDebug } from '@/shared/utils/logging';
+
+/**
+ * List all target configs stored in KV
+ */
+export async function listTargetConfigs(env: Env): Promise<TargetConfig[]> {
+  const targetIds = await KV_TARGET.list(env);
+  const targetConfigs = await Promise.all(targetIds.map((targetId) => KV_TARGET.get<TargetConfig>(targetId, env)));
+  return targetConfigs.filter((targetConfig): targetConfig is TargetConfig => targetConfig !== null);
+}
+
+/**
+ * Get a target config
+ */
+export async function getTargetConfig(targetId: string, env: Env): Promise<TargetConfig | null> {
+  try {
+    return await KV_TARGET.get<TargetConfig>(targetId, env);
+  } catch (error) {
+    console.error('Error getting target config:', error);
+    return null;
+  }
+}
+
+/**
+ * Create a new target config. Returns null if a target with the same ID already exists.
+ */
+export async function createTargetConfig(targetConfig: TargetConfig, env: Env): Promise<TargetConfig | null> {
+  const existing = await KV_TARGET.get<TargetConfig>(targetConfig.id, env);
+  if (existing) {
+    return null;
+  }
+
+  await KV_TARGET.put(targetConfig.id, targetConfig, env);
+
+  logDebug('admin', `Created target config ${targetConfig.id}`);
+
+  return targetConfig;
+}
+
+/**
+ * Update a target config
+ */
+export async function updateTargetConfig(targetId: string, updates: Partial<TargetConfig>, env: Env): Promise<TargetConfig | null> {
+  try {
+    const currentData = await KV_TARGET.get<TargetConfig>(targetId, env);
+    if (!currentData) {
+      return null;
+    }
+
+    // The target ID is immutable
+    const updatedData: TargetConfig = {
+      ...currentData,
+      ...updates,
+      id: targetId,
+    };
+
+    await KV_TARGET.put(targetId, updatedData, env);
+
+    logDebug('admin', `Updated target config ${targetId}`);
+
+    return updatedData;
+  } catch (error) {
+    console.error('Error updating target config:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete a target config
+ */
+export async function deleteTargetConfig(targetId: string, env: Env): Promise<boolean> {
+  try {
+    const targetConfig = await KV_TARGET.get<TargetConfig>(targetId, env);
+    if (!targetConfig) {
+      return false;
+    }
+
+    await KV_TARGET.delete(targetId, env);
+
+    logDebug('admin', `Deleted target config ${targetId}`);
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting target config:', error);
+    return false;
+  }
+}
+
+/**
+ * Copy the static seed targets into KV, skipping any that already exist
+ */
+export async function seedTargetConfigs(env: Env): Promise<string[]> {
+  const seeded: string[] = [];
+
+  for (const targetConfig of targets) {
+    if (await createTargetConfig(targetConfig, env)) {
+      seeded.push(targetConfig.id);
+    }
+  }
+
+  return seeded;
+}
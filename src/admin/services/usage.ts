@@ -0,0 +1,37 @@
+import { getUsageTracker } from '@/shared/durable/usageTracker';
+import type { UsageQuery, UsageRow } from '@/shared/types';
+
+/**
+ * Aggregate usage across clients.
+ * Each client's tracker aggregates its own events; rows are merged here unless grouped by client.
+ */
+export async function getUsage(clientIds: string[], query: UsageQuery, groupByClient: boolean, env: Env): Promise<UsageRow[]> {
+  const clientRows = await Promise.all(
+    clientIds.map(async (clientId) => {
+      const rows = await getUsageTracker(clientId, env).query(query);
+      return rows.map((row) => (groupByClient ? { ...row, clientId } : row));
+    })
+  );
+
+  if (groupByClient) {
+    return clientRows.flat();
+  }
+
+  // Merge rows sharing the same bucket and dimensions
+  const merged = new Map<string, UsageRow>();
+  for (const row of clientRows.flat()) {
+    const mergeKey = `${row.bucket}:${row.targetId ?? ''}:${row.keyId ?? ''}`;
+    const existing = merged.get(mergeKey);
+    if (!existing) {
+      merged.set(mergeKey, { ...row });
+      continue;
+    }
+
+    existing.requests += row.requests;
+    existing.errors += row.errors;
+    existing.creditsUsed += row.creditsUsed;
+    existing.totalLatencyMs += row.totalLatencyMs;
+  }
+
+  return [...merged.values()].sort((a, b) => a.bucket - b.bucket);
+}
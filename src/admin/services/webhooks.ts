@@ -0,0 +1,185 @@
+import { getCreditLedger } from '@/shared/durable/creditLedger';
+import { getWebhookDispatcher } from '@/shared/durable/webhookDispatcher';
+import type { ApiKeyConfig, WebhookDelivery, WebhookSubscription } from '@/shared/types';
+import { generateApiKey } from '@/shared/utils/crypto';
+import { KV_API_KEY_CLIENT, KV_WEBHOOK } from '@/shared/utils/kv';
+import { logDebug } from '@/shared/utils/logging';
+import { listWebhookSubscriptions } from '@/shared/utils/webhook';
+
+/**
+ * Hide the signing secret of a subscription
+ */
+export function withoutSecret(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> {
+  const { secret: _secret, ...rest } = subscription;
+  return rest;
+}
+
+/**
+ * Push the balance thresholds of a client's active subscriptions to its credit ledger
+ */
+async function syncBalanceAlerts(clientId: string, env: Env): Promise<void> {
+  const subscriptions = (await listWebhookSubscriptions(clientId, env)).filter((subscription) => subscription.active);
+
+  const lowThresholds = subscriptions
+    .filter((subscription) => subscription.events.includes('credits.low') && subscription.lowBalanceThreshold !== undefined)
+    .map((subscription) => subscription.lowBalanceThreshold as number);
+
+  await getCreditLedger(clientId, env).setBalanceAlerts(clientId, {
+    lowThresholds: [...new Set(lowThresholds)],
+    depleted: subscriptions.some((subscription) => subscription.events.includes('credits.depleted')),
+  });
+}
+
+/**
+ * List the webhook subscriptions of a client
+ */
+export async function listWebhooks(clientId: string, env: Env): Promise<Omit<WebhookSubscription, 'secret'>[]> {
+  return (await listWebhookSubscriptions(clientId, env)).map(withoutSecret);
+}
+
+/**
+ * Get a webhook subscription of a client
+ */
+export async function getWebhook(clientId: string, webhookId: string, env: Env): Promise<WebhookSubscription | null> {
+  try {
+    return await KV_WEBHOOK.get<WebhookSubscription>(`${clientId}:${webhookId}`, env);
+  } catch (error) {
+    console.error('Error getting webhook:', error);
+    return null;
+  }
+}
+
+/**
+ * Create a webhook subscription for a client
+ * The signing secret is only returned here
+ */
+export async function createWebhook(
+  clientId: string,
+  options: Pick<WebhookSubscription, 'url' | 'events' | 'lowBalanceThreshold' | 'expiryWarningDays'>,
+  env: Env
+): Promise<WebhookSubscription> {
+  const subscription: WebhookSubscription = {
+    id: crypto.randomUUID(),
+    clientId,
+    url: options.url,
+    events: options.events,
+    secret: generateApiKey('whsec_', 32),
+    active: true,
+    ...(options.lowBalanceThreshold !== undefined && { lowBalanceThreshold: options.lowBalanceThreshold }),
+    ...(options.expiryWarningDays !== undefined && { expiryWarningDays: options.expiryWarningDays }),
+    createdAt: Date.now(),
+  };
+
+  await KV_WEBHOOK.put(`${clientId}:${subscription.id}`, subscription, env);
+  await syncBalanceAlerts(clientId, env);
+
+  logDebug('admin', `Created webhook ${subscription.id} for client ${clientId}`, { events: subscription.events });
+
+  return subscription;
+}
+
+/**
+ * Update a webhook subscription of a client
+ */
+export async function updateWebhook(
+  clientId: string,
+  webhookId: string,
+  updates: Partial<Pick<WebhookSubscription, 'url' | 'events' | 'active' | 'lowBalanceThreshold' | 'expiryWarningDays'>>,
+  env: Env
+): Promise<WebhookSubscription | null> {
+  const currentSubscription = await getWebhook(clientId, webhookId, env);
+  if (!currentSubscription) {
+    return null;
+  }
+
+  // Only the updatable fields, the ID, client and secret are immutable
+  const { url, events, active, lowBalanceThreshold, expiryWarningDays } = updates;
+  const updatedSubscription: WebhookSubscription = {
+    ...currentSubscription,
+    ...(url !== undefined && { url }),
+    ...(events !== undefined && { events }),
+    ...(active !== undefined && { active }),
+    ...(lowBalanceThreshold !== undefined && { lowBalanceThreshold }),
+    ...(expiryWarningDays !== undefined && { expiryWarningDays }),
+  };
+
+  await KV_WEBHOOK.put(`${clientId}:${webhookId}`, updatedSubscription, env);
+  await syncBalanceAlerts(clientId, env);
+
+  logDebug('admin', `Updated webhook ${webhookId} for client ${clientId}`);
+
+  return updatedSubscription;
+}
+
+/**
+ * Delete a webhook subscription of a client
+ */
+export async function deleteWebhook(clientId: string, webhookId: string, env: Env): Promise<boolean> {
+  if (!(await getWebhook(clientId, webhookId, env))) {
+    return false;
+  }
+
+  await KV_WEBHOOK.delete(`${clientId}:${webhookId}`, env);
+  await syncBalanceAlerts(clientId, env);
+
+  logDebug('admin', `Deleted webhook ${webhookId} for client ${clientId}`);
+
+  return true;
+}
+
+/**
+ * List the recorded deliveries of a webhook subscription, newest first
+ */
+export async function listWebhookDeliveries(clientId: string, webhookId: string, limit: number, env: Env): Promise<WebhookDelivery[]> {
+  return getWebhookDispatcher(clientId, env).listDeliveries(webhookId, limit);
+}
+
+/**
+ * Notify a client's webhooks that one of its keys was deactivated.
+ * Deliveries are queued for the dispatcher's alarm, so a slow client endpoint never holds up the admin request
+ */
+export async function notifyKeyDeactivated(config: ApiKeyConfig, env: Env): Promise<void> {
+  try {
+    await getWebhookDispatcher(config.clientId, env).enqueue(config.clientId, 'key.deactivated', { keyId: config.keyId });
+  } catch (error) {
+    console.error(`Error notifying deactivation of API key ${config.keyId}:`, error);
+  }
+}
+
+/**
+ * Notify the webhooks of clients subscribed to key.expiring about their keys nearing expiry.
+ * Each key is notified once per subscription and expiry date, so this can run repeatedly.
+ * Returns the number of keys checked.
+ */
+export async function notifyExpiringKeys(env: Env): Promise<number> {
+  const clientIds = new Set<string>();
+  for (const webhookId of await KV_WEBHOOK.list(env)) {
+    const subscription = await KV_WEBHOOK.get<WebhookSubscription>(webhookId, env);
+    if (subscription?.active && subscription.events.includes('key.expiring')) {
+      clientIds.add(subscription.clientId);
+    }
+  }
+
+  const now = Date.now();
+  let checked = 0;
+  for (const clientId of clientIds) {
+    const dispatcher = getWebhookDispatcher(clientId, env);
+    for (const indexId of await KV_API_KEY_CLIENT.list(env, `${clientId}:`)) {
+      const config = await KV_API_KEY_CLIENT.get<ApiKeyConfig>(indexId, env);
+      if (!config?.active || !config.expiresAt || config.expiresAt < now) {
+        continue;
+      }
+
+      // The dispatcher only notifies subscriptions whose warning window the key has entered
+      await dispatcher.dispatch(
+        clientId,
+        'key.expiring',
+        { keyId: config.keyId, expiresAt: config.expiresAt },
+        `${config.keyId}:${config.expiresAt}`
+      );
+      checked++;
+    }
+  }
+
+  return checked;
+}
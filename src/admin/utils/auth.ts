@@ -0,0 +1,14 @@
+import type { AdminPrincipal, AdminRole } from '@/shared/types';
+import { errorResponse } from '@/shared/utils/response';
+
+/**
+ * Check that an admin principal has a role
+ * @returns A 403 response if the role is missing, null if the principal is allowed
+ */
+export function requireRole(principal: AdminPrincipal, role: AdminRole): Response | null {
+  if (principal.roles.includes(role)) {
+    return null;
+  }
+
+  return errorResponse(403, `Admin role ${role} required`);
+}
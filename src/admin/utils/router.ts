@@ -0,0 +1,278 @@
+import type { AdminContext, AdminRole, FieldError } from '@/shared/types';
+import { errorResponse, fieldErrorResponse } from '@/shared/utils/response';
+
+import { requireRole } from './auth';
+import { type JsonSchema, validateSchema } from './validation';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface QueryParameter {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
+
+/**
+ * What a route handler receives: the request, its path parameters and its validated body
+ */
+export interface RouteRequest<TBody> {
+  request: Request;
+  env: Env;
+  context: AdminContext;
+  // Path parameters by name, e.g. { id: '...' } for /admin/targets/:id
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: TBody;
+}
+
+/**
+ * An admin route: its path, required role and request and response schemas, and its handler.
+ * The router checks the role and validates the query parameters and body before calling the handler.
+ * GET routes also answer HEAD requests, without their body.
+ */
+export interface AdminRoute<TBody = undefined> {
+  method: HttpMethod;
+  // Path with :name parameters, e.g. /admin/api-keys/:id/rotate
+  path: string;
+  summary: string;
+  tag: string;
+  role?: AdminRole;
+  query?: QueryParameter[];
+  body?: JsonSchema;
+  // Whether the body may be omitted (defaults to false when a body schema is declared)
+  optionalBody?: boolean;
+  responses: Record<number, { description: string; schema?: JsonSchema }>;
+  handle: (route: RouteRequest<TBody>) => Promise<Response>;
+}
+
+/**
+ * Declare a route, typing its handler body.
+ * The route is widened to an unknown body for the route lists: the router only calls the handler
+ * with a body validated against the route schema, which is what the handler type describes.
+ */
+export function defineRoute<TBody = undefined>(route: AdminRoute<TBody>): AdminRoute<unknown> {
+  return route as AdminRoute<unknown>;
+}
+
+// Error body of every admin error response
+const ERROR_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    code: { type: 'integer' },
+    fields: {
+      type: 'array',
+      description: 'Invalid fields, for 400 responses to invalid bodies or query parameters',
+      items: {
+        type: 'object',
+        properties: { field: { type: 'string' }, message: { type: 'string' } },
+        required: ['field', 'message'],
+      },
+    },
+  },
+  required: ['error', 'code'],
+};
+
+/**
+ * Match a request path against a route path, returning the path parameters or null
+ */
+function matchPath(routePath: string, path: string): Record<string, string> | null {
+  const routeSegments = routePath.split('/');
+  const segments = path.split('/');
+  if (routeSegments.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [index, routeSegment] of routeSegments.entries()) {
+    if (routeSegment.startsWith(':')) {
+      if (!segments[index]) {
+        return null;
+      }
+
+      try {
+        params[routeSegment.slice(1)] = decodeURIComponent(segments[index]);
+      } catch {
+        return null;
+      }
+    } else if (routeSegment !== segments[index]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Number of path parameters of a route, fewer means more specific (/admin/targets/seed before /admin/targets/:id)
+ */
+function countParams(routePath: string): number {
+  return routePath.split('/').filter((segment) => segment.startsWith(':')).length;
+}
+
+/**
+ * Convert a query parameter value to the type of its schema, leaving values that do not convert for the validation to reject
+ */
+function parseQueryValue(value: string, schema: JsonSchema): unknown {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if ((types.includes('integer') || types.includes('number')) && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+}
+
+/**
+ * Validate the declared query parameters of a request against their schemas, every value of repeated parameters included
+ * @returns Every invalid parameter, an empty list if validation passes
+ */
+function validateQuery(searchParams: URLSearchParams, route: AdminRoute<unknown>): FieldError[] {
+  return (route.query ?? []).flatMap(({ name, schema }) =>
+    searchParams.getAll(name).flatMap((value) => validateSchema(parseQueryValue(value, schema), schema, name))
+  );
+}
+
+/**
+ * Parse and validate the JSON body of a request against a route schema
+ * @returns The body, or the 400 response to return
+ */
+async function readBody(request: Request, route: AdminRoute<unknown>): Promise<{ body: unknown } | { response: Response }> {
+  if (!route.body) {
+    return { body: undefined };
+  }
+
+  const text = await request.text();
+  if (!text.trim()) {
+    return route.optionalBody ? { body: {} } : { response: errorResponse(400, 'Request body is required') };
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { response: errorResponse(400, 'Request body must be valid JSON') };
+  }
+
+  const fieldErrors = validateSchema(body, route.body);
+  if (fieldErrors.length) {
+    return { response: fieldErrorResponse(fieldErrors) };
+  }
+
+  return { body };
+}
+
+/**
+ * Route an admin request: 405 with Allow if the path exists but not for this method, 403 if the principal
+ * lacks the route role, 400 listing the field errors of invalid query parameters or body, otherwise the
+ * route handler response. Returns null if no route has this path.
+ */
+export async function routeAdminRequest(
+  routes: AdminRoute<unknown>[],
+  request: Request,
+  env: Env,
+  context: AdminContext
+): Promise<Response | null> {
+  const url = new URL(request.url);
+  const matches = routes
+    .map((route) => ({ route, params: matchPath(route.path, url.pathname) }))
+    .filter((match): match is { route: AdminRoute<unknown>; params: Record<string, string> } => match.params !== null);
+  if (!matches.length) {
+    return null;
+  }
+
+  // HEAD requests are answered by the GET route, without the body
+  const isHead = request.method === 'HEAD';
+  const method = isHead ? 'GET' : request.method;
+  const match = matches
+    .filter(({ route }) => route.method === method)
+    .sort((a, b) => countParams(a.route.path) - countParams(b.route.path))[0];
+  if (!match) {
+    const allowed = [...new Set(matches.flatMap(({ route }) => (route.method === 'GET' ? ['GET', 'HEAD'] : [route.method])))];
+    return errorResponse(405, 'Method Not Allowed', { Allow: allowed.join(', ') });
+  }
+
+  const { route, params } = match;
+  try {
+    if (route.role) {
+      const denied = requireRole(context.principal, route.role);
+      if (denied) {
+        return denied;
+      }
+    }
+
+    const queryErrors = validateQuery(url.searchParams, route);
+    if (queryErrors.length) {
+      return fieldErrorResponse(queryErrors, 'Invalid query parameters');
+    }
+
+    const result = await readBody(request, route);
+    if ('response' in result) {
+      return result.response;
+    }
+
+    const response = await route.handle({ request, env, context, params, query: url.searchParams, body: result.body });
+    return isHead ? new Response(null, response) : response;
+  } catch (error: unknown) {
+    console.error(`Error handling ${route.method} ${route.path}:`, error instanceof Error ? error.message : String(error));
+    return errorResponse(500, 'Internal Server Error');
+  }
+}
+
+/**
+ * Generate the OpenAPI 3.1 document of the admin routes
+ */
+export function buildOpenApiDocument(routes: AdminRoute<unknown>[]): Record<string, unknown> {
+  const errorResponseOf = (description: string) => ({ description, content: { 'application/json': { schema: ERROR_SCHEMA } } });
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of routes) {
+    const pathParams = route.path
+      .split('/')
+      .filter((segment) => segment.startsWith(':'))
+      .map((segment) => segment.slice(1));
+    const openApiPath = route.path.replace(/:([A-Za-z]+)/g, '{$1}');
+
+    const responses: Record<string, unknown> = {};
+    for (const [status, { description, schema }] of Object.entries(route.responses)) {
+      responses[status] = schema ? { description, content: { 'application/json': { schema } } } : { description };
+    }
+    if (route.body || route.query) {
+      responses['400'] ??= errorResponseOf('Invalid request');
+    }
+    responses['401'] = errorResponseOf('Missing or invalid admin API key');
+    if (route.role) {
+      responses['403'] = errorResponseOf(`Admin role ${route.role} required`);
+    }
+    responses['500'] = errorResponseOf('Internal error');
+
+    paths[openApiPath] ??= {};
+    paths[openApiPath][route.method.toLowerCase()] = {
+      summary: route.summary,
+      tags: [route.tag],
+      ...(route.role && { description: `Requires the ${route.role} role.` }),
+      parameters: [
+        ...pathParams.map((name) => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+        ...(route.query ?? []).map(({ name, description, schema }) => ({ name, in: 'query', description, schema })),
+      ],
+      ...(route.body && {
+        requestBody: { required: !route.optionalBody, content: { 'application/json': { schema: route.body } } },
+      }),
+      responses,
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'APIKI Admin API',
+      version: '0.0.1',
+      description: 'Manage the API keys, clients, credits, targets and webhooks of the APIKI gateway.',
+    },
+    components: {
+      securitySchemes: { adminApiKey: { type: 'apiKey', in: 'header', name: 'X-Admin-API-Key' } },
+    },
+    security: [{ adminApiKey: [] }],
+    paths,
+  };
+}
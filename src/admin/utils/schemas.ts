@@ -0,0 +1,142 @@
+// JSON schemas of the records shared by several admin routes, for body validation and the OpenAPI document
+
+import type { QueryParameter } from './router';
+import type { JsonSchema, JsonSchemaType } from './validation';
+
+export const TIMESTAMP_SCHEMA: JsonSchema = { type: 'integer', description: 'Unix time in milliseconds' };
+
+export const RATE_LIMIT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    limit: { type: 'integer', minimum: 1, description: 'Requests allowed per window' },
+    window: { type: 'string', enum: ['second', 'minute'] },
+    burst: { type: 'integer', minimum: 1, description: 'Maximum requests allowed at once (defaults to limit)' },
+  },
+  required: ['limit', 'window'],
+};
+
+const QUOTA_LIMITS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    requests: { type: 'integer', minimum: 1 },
+    credits: { type: 'integer', minimum: 1 },
+  },
+};
+
+export const QUOTA_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    daily: QUOTA_LIMITS_SCHEMA,
+    monthly: QUOTA_LIMITS_SCHEMA,
+    timezone: { type: 'string', description: 'IANA timezone in which days and months start (default UTC)' },
+  },
+};
+
+const STRING_LIST_SCHEMA: JsonSchema = { type: 'array', items: { type: 'string' }, maxItems: 100 };
+
+export const RESTRICTIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    allowedIps: { ...STRING_LIST_SCHEMA, description: 'IP addresses or CIDR ranges' },
+    allowedReferrers: { ...STRING_LIST_SCHEMA, description: "Origin patterns, e.g. 'https://*.example.com'" },
+    allowedCountries: { ...STRING_LIST_SCHEMA, description: 'ISO 3166-1 alpha-2 country codes' },
+    deniedCountries: { ...STRING_LIST_SCHEMA, description: 'ISO 3166-1 alpha-2 country codes' },
+  },
+};
+
+export const TARGET_IDS_SCHEMA: JsonSchema = {
+  anyOf: [
+    { type: 'string', enum: ['*'] },
+    { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+  ],
+  description: "Targets the key may access, or '*' for every target",
+};
+
+export const API_KEY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    keyId: { type: 'string', description: 'Non-secret key ID' },
+    clientId: { type: 'string' },
+    active: { type: 'boolean' },
+    expiresAt: { type: ['integer', 'null'] },
+    targetId: { type: 'string', description: 'Legacy single target' },
+    targetIds: TARGET_IDS_SCHEMA,
+    rateLimit: RATE_LIMIT_SCHEMA,
+    quota: QUOTA_SCHEMA,
+    restrictions: RESTRICTIONS_SCHEMA,
+    rotatedFrom: { type: 'string' },
+    rotatedTo: { type: 'string' },
+    rotatedAt: TIMESTAMP_SCHEMA,
+    rotationGraceEndsAt: TIMESTAMP_SCHEMA,
+    quotaKeyId: { type: 'string', description: 'First key of the rotation lineage, whose quota the key counts against' },
+  },
+  required: ['keyId', 'clientId', 'active', 'expiresAt'],
+};
+
+// A created key, the only time the key itself is returned
+export const NEW_API_KEY_SCHEMA: JsonSchema = {
+  ...API_KEY_SCHEMA,
+  properties: { ...API_KEY_SCHEMA.properties, apiKey: { type: 'string' } },
+  required: [...(API_KEY_SCHEMA.required ?? []), 'apiKey'],
+};
+
+export const API_KEY_LIST_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    keys: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          keyId: { type: 'string' },
+          clientId: { type: 'string' },
+          status: { type: 'string', enum: ['active', 'inactive', 'expired', 'rotating', 'rotated'] },
+          expiresAt: { type: ['integer', 'null'] },
+          targetIds: TARGET_IDS_SCHEMA,
+        },
+      },
+    },
+    cursor: { type: ['string', 'null'] },
+  },
+};
+
+export const CREDIT_GRANT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    amount: { type: 'integer', minimum: 1, maximum: 1000000 },
+    interval: { type: 'string', enum: ['day', 'week', 'month'] },
+    mode: { type: 'string', enum: ['reset', 'accumulate'] },
+  },
+  required: ['amount', 'interval', 'mode'],
+};
+
+export const SUCCESS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { success: { type: 'boolean' } },
+};
+
+// Query parameters of the cursor-paginated listings
+export const PAGE_QUERY: QueryParameter[] = [
+  { name: 'limit', description: 'Page size (defaults to 50)', schema: { type: 'integer', minimum: 1, maximum: 100 } },
+  { name: 'cursor', description: 'Cursor returned by the previous page', schema: { type: 'string' } },
+];
+
+// Query parameters of the listings filtered by date, as milliseconds or date strings
+export const TIME_RANGE_QUERY: QueryParameter[] = [
+  { name: 'from', description: 'Start of the range, inclusive', schema: { type: 'string' } },
+  { name: 'to', description: 'End of the range, inclusive', schema: { type: 'string' } },
+];
+
+export const API_KEY_LIST_QUERY: QueryParameter[] = [
+  { name: 'clientId', description: 'Only keys of this client', schema: { type: 'string' } },
+  { name: 'active', description: 'Only active or inactive keys', schema: { type: 'string', enum: ['true', 'false'] } },
+  { name: 'expiringBefore', description: 'Only keys expiring before this date', schema: { type: 'string' } },
+  ...PAGE_QUERY,
+];
+
+/**
+ * Allow null in place of an optional object, which request bodies use to clear it
+ */
+export function nullable(schema: JsonSchema): JsonSchema {
+  return { ...schema, type: [schema.type as JsonSchemaType, 'null'] };
+}
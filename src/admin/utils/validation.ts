@@ -0,0 +1,399 @@
+import type {
+  ApiKeyListFilters,
+  ApiKeyRestrictions,
+  AuditQuery,
+  CreditTransactionQuery,
+  FieldError,
+  PageOptions,
+  QuotaConfig,
+  RateLimitConfig,
+} from '@/shared/types';
+import { isValidCidr, isValidOriginPattern } from '@/shared/utils/network';
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+/**
+ * The subset of JSON Schema (draft 2020-12, the OpenAPI 3.1 dialect) used to describe admin requests and responses
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: readonly (string | number | boolean | null)[];
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // The value must match at least one of the schemas
+  anyOf?: JsonSchema[];
+}
+
+/**
+ * Check that a value has a JSON Schema type
+ */
+function hasSchemaType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validates a value against a JSON schema
+ * @param value The value to validate, e.g. a parsed request body
+ * @param schema The schema the value must match
+ * @param field The path of the value, used in the error fields (e.g. 'rateLimit.limit')
+ * @returns Every invalid field, an empty list if validation passes
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, field = ''): FieldError[] {
+  const name = field || 'body';
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasSchemaType(value, type))) {
+      return [{ field: name, message: `must be of type ${types.join(' or ')}` }];
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((option) => !validateSchema(value, option, field).length)) {
+    return [{ field: name, message: 'does not match any of the allowed forms' }];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    return [{ field: name, message: `must be one of ${schema.enum.join(', ')}` }];
+  }
+
+  const errors: FieldError[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ field: name, message: `must be at least ${schema.minLength} characters long` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ field: name, message: `must be at most ${schema.maxLength} characters long` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ field: name, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field: name, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field: name, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ field: name, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ field: name, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => errors.push(...validateSchema(item, items, `${field}[${index}]`)));
+    }
+  }
+
+  if (hasSchemaType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    const childField = (key: string) => (field ? `${field}.${key}` : key);
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        errors.push({ field: childField(key), message: 'is required' });
+      }
+    }
+
+    for (const [key, child] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(child, propertySchema, childField(key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: childField(key), message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(child, schema.additionalProperties, childField(key)));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a rate limit configuration
+ * @param rateLimit The rate limit configuration to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+export function validateRateLimitConfig(rateLimit: Partial<RateLimitConfig> | undefined): string | null {
+  // Rate limits are optional
+  if (rateLimit === undefined || rateLimit === null) {
+    return null;
+  }
+
+  if (typeof rateLimit !== 'object') {
+    return 'Rate limit must be an object';
+  }
+
+  if (typeof rateLimit.limit !== 'number' || !Number.isInteger(rateLimit.limit) || rateLimit.limit < 1) {
+    return 'Rate limit must be a positive integer';
+  }
+
+  if (rateLimit.window !== 'second' && rateLimit.window !== 'minute') {
+    return "Rate limit window must be 'second' or 'minute'";
+  }
+
+  if (rateLimit.burst !== undefined && (typeof rateLimit.burst !== 'number' || !Number.isInteger(rateLimit.burst) || rateLimit.burst < 1)) {
+    return 'Rate limit burst must be a positive integer';
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Validates a quota configuration
+ * @param quota The quota configuration to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+export function validateQuotaConfig(quota: Partial<QuotaConfig> | undefined): string | null {
+  // Quotas are optional
+  if (quota === undefined || quota === null) {
+    return null;
+  }
+
+  if (typeof quota !== 'object') {
+    return 'Quota must be an object';
+  }
+
+  if (!quota.daily && !quota.monthly) {
+    return 'Quota must have a daily or monthly limit';
+  }
+
+  for (const [period, limits] of [
+    ['Daily', quota.daily],
+    ['Monthly', quota.monthly],
+  ] as const) {
+    if (limits === undefined) {
+      continue;
+    }
+
+    if (typeof limits !== 'object' || limits === null || (limits.requests === undefined && limits.credits === undefined)) {
+      return `${period} quota must have a request or credit limit`;
+    }
+
+    for (const [unit, limit] of [
+      ['request', limits.requests],
+      ['credit', limits.credits],
+    ] as const) {
+      if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+        return `${period} ${unit} quota must be a positive integer`;
+      }
+    }
+  }
+
+  if (quota.timezone !== undefined) {
+    if (typeof quota.timezone !== 'string') {
+      return 'Quota timezone must be a string';
+    }
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: quota.timezone });
+    } catch {
+      return 'Quota timezone must be a valid IANA timezone';
+    }
+  }
+
+  // Validation passed
+  return null;
+}
+
+// Maximum number of entries in each restriction list
+const MAX_RESTRICTION_ENTRIES = 100;
+
+/**
+ * Validates the IP, origin and country restrictions of an API key
+ * @param restrictions The restrictions to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+export function validateRestrictions(restrictions: Partial<ApiKeyRestrictions> | undefined): string | null {
+  // Restrictions are optional
+  if (restrictions === undefined || restrictions === null) {
+    return null;
+  }
+
+  if (typeof restrictions !== 'object') {
+    return 'Restrictions must be an object';
+  }
+
+  const lists: [string, unknown, (value: string) => boolean][] = [
+    ['Allowed IPs', restrictions.allowedIps, isValidCidr],
+    ['Allowed referrers', restrictions.allowedReferrers, isValidOriginPattern],
+    ['Allowed countries', restrictions.allowedCountries, (value) => /^[A-Z]{2}$/.test(value)],
+    ['Denied countries', restrictions.deniedCountries, (value) => /^[A-Z]{2}$/.test(value)],
+  ];
+
+  for (const [name, list, isValid] of lists) {
+    if (list === undefined) {
+      continue;
+    }
+
+    if (!Array.isArray(list) || list.length > MAX_RESTRICTION_ENTRIES) {
+      return `${name} must be a list of at most ${MAX_RESTRICTION_ENTRIES} entries`;
+    }
+
+    const invalid = list.find((value) => typeof value !== 'string' || !isValid(value));
+    if (invalid !== undefined) {
+      return `${name} contains an invalid entry: ${String(invalid)}`;
+    }
+  }
+
+  // Validation passed
+  return null;
+}
+
+/**
+ * Validates a client ID
+ * Client IDs must not contain ':', which separates them from the key and webhook IDs in index keys ("<clientId>:<keyId>")
+ * @param clientId The client ID to validate
+ * @returns Error message if validation fails, null if validation passes
+ */
+export function validateClientId(clientId: unknown): string | null {
+  if (typeof clientId !== 'string' || !clientId) {
+    return 'Client ID must be a non-empty string';
+  }
+
+  if (clientId.includes(':')) {
+    return "Client ID must not contain ':'";
+  }
+
+  // Validation passed
+  return null;
+}
+
+// Default and maximum page size for listings
+const DEFAULT_PAGE_LIMIT = 50;
+const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Parse a timestamp query parameter given as milliseconds or as a date string
+ * @returns The timestamp, undefined if the parameter is absent, or NaN if it is invalid
+ */
+export function parseTimestampParam(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  return /^\d+$/.test(value) ? parseInt(value) : new Date(value).getTime();
+}
+
+/**
+ * Parse pagination from query parameters
+ * @returns The page options, or an error message if a parameter is invalid
+ */
+export function parsePageOptions(searchParams: URLSearchParams): { error: string } | PageOptions {
+  const limit = parseInt(searchParams.get('limit') ?? String(DEFAULT_PAGE_LIMIT));
+  if (isNaN(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    return { error: `Limit must be between 1 and ${MAX_PAGE_LIMIT}` };
+  }
+
+  return { limit, cursor: searchParams.get('cursor') || undefined };
+}
+
+/**
+ * Parse API key listing filters and pagination from query parameters
+ * @returns The parsed filters and page, or an error message if a parameter is invalid
+ */
+export function parseApiKeyListQuery(searchParams: URLSearchParams): { error: string } | { filters: ApiKeyListFilters; page: PageOptions } {
+  const clientId = searchParams.get('clientId') || undefined;
+
+  const activeParam = searchParams.get('active');
+  if (activeParam !== null && activeParam !== 'true' && activeParam !== 'false') {
+    return { error: "Active must be 'true' or 'false'" };
+  }
+
+  const expiringBefore = parseTimestampParam(searchParams.get('expiringBefore'));
+  if (expiringBefore !== undefined && isNaN(expiringBefore)) {
+    return { error: 'Expiring Before must be a valid date' };
+  }
+
+  const page = parsePageOptions(searchParams);
+  if ('error' in page) {
+    return page;
+  }
+
+  return {
+    filters: { clientId, active: activeParam === null ? undefined : activeParam === 'true', expiringBefore },
+    page,
+  };
+}
+
+/**
+ * Parse credit transaction filters and pagination from query parameters
+ * @returns The parsed query, or an error message if a parameter is invalid
+ */
+export function parseCreditTransactionQuery(searchParams: URLSearchParams): { error: string } | CreditTransactionQuery {
+  const from = parseTimestampParam(searchParams.get('from'));
+  if (from !== undefined && isNaN(from)) {
+    return { error: 'From must be a valid date' };
+  }
+
+  const to = parseTimestampParam(searchParams.get('to'));
+  if (to !== undefined && isNaN(to)) {
+    return { error: 'To must be a valid date' };
+  }
+
+  if (from !== undefined && to !== undefined && from > to) {
+    return { error: 'From cannot be after To' };
+  }
+
+  const page = parsePageOptions(searchParams);
+  if ('error' in page) {
+    return page;
+  }
+
+  return { from, to, ...page };
+}
+
+/**
+ * Parse audit log filters and pagination from query parameters
+ * @returns The audit query, or an error message if a parameter is invalid
+ */
+export function parseAuditQuery(searchParams: URLSearchParams): { error: string } | AuditQuery {
+  const range = parseCreditTransactionQuery(searchParams);
+  if ('error' in range) {
+    return range;
+  }
+
+  return {
+    ...range,
+    actor: searchParams.get('actor') || undefined,
+    resourceType: searchParams.get('resourceType') || undefined,
+    resourceId: searchParams.get('resourceId') || undefined,
+  };
+}
@@ -1,5 +1,6 @@
 import type { TargetConfig } from '@/shared/types';
 
+// Static targets, used as a fallback for targets not stored in KV and as the seed for /admin/targets/seed
 export const targets: TargetConfig[] = [
   {
     id: 'api-target1',
@@ -18,6 +19,12 @@ export const targets: TargetConfig[] = [
     pattern: '^/complex/.*$',
     isRegex: true,
     targetUrl: 'https://complex-api.example.com',
+    transform: {
+      pathRewrite: {
+        pattern: '^/complex(/.*)?$',
+        replacement: '$1',
+      },
+    },
     costInfo: {
       cost: 5,
       description: 'High-resource usage endpoint',
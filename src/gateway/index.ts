@@ -1,20 +1,49 @@
 // APIKI Gateway - Cloudflare Worker for simple API Key Validation and Usage Credit Management
 
-import type { CreditResult } from '@/shared/types';
+import { getQuotaKeyId } from '@/shared/durable/quotaTracker';
+import type { ApiKeyConfig, CreditResult, QuotaResult, UsageEvent } from '@/shared/types';
 import { logDebug } from '@/shared/utils/logging';
 import { errorResponse, handleCors, secureResponse } from '@/shared/utils/response';
 
-import { getApiKeyConfig } from './services/apiKey';
-import { processCredits } from './services/credits';
-import { getTargetConfig, matchTargetPattern, extractRelativePath } from './services/target';
+import { getAllowedTargetIds, getApiKeyConfig } from './services/apiKey';
+import { getClientConfig } from './services/client';
+import { API_KEY_QUERY_PARAM, extractApiKey, extractJwt, isTransportAllowed } from './services/credentials';
+import { commitCredits, isRefundableStatus, processCredits, releaseCredits, settleCredits } from './services/credits';
+import { authenticateJwt } from './services/jwt';
+import { reportOriginOutcome, selectOrigin } from './services/origin';
+import { readMeteredCost, resolvePrice } from './services/pricing';
+import { consumeQuota, quotaErrorMessage, quotaHeaders, refundQuota } from './services/quota';
+import { checkRateLimits, rateLimitHeaders } from './services/rateLimit';
+import { checkRestrictions, restrictionErrorMessage } from './services/restrictions';
+import { checkCircuit, fetchUpstream, isTimeoutError, reportUpstreamOutcome } from './services/resilience';
+import { extractRelativePath, getAllowedTargetConfigs, selectTargetConfig } from './services/target';
+import { applyHeaderRules, applyQueryInjection } from './services/transform';
+import { buildUpstreamRequest } from './services/upstream';
+import { recordUsage } from './services/usage';
+
+// Durable Objects must be exported from the worker that hosts them
+export { AuditLog } from '@/shared/durable/auditLog';
+export { CircuitBreaker } from '@/shared/durable/circuitBreaker';
+export { CreditLedger } from '@/shared/durable/creditLedger';
+export { QuotaTracker } from '@/shared/durable/quotaTracker';
+export { RateLimiter } from '@/shared/durable/rateLimiter';
+export { UsageTracker } from '@/shared/durable/usageTracker';
+export { WebhookDispatcher } from '@/shared/durable/webhookDispatcher';
 
 /**
  * Main entry point for the API Gateway Worker
  */
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const requestId = crypto.randomUUID().slice(0, 8); // Short ID for tracking
     let creditResult: CreditResult = { success: true, remaining: 0, used: 0 };
+    let clientId: string | null = null;
+    // Quota tracker of the request key, shared by its rotation lineage
+    let quotaKeyId: string | null = null;
+    let quotaResult: QuotaResult | null = null;
+    let reservedCredits = 0;
+    // Set once the request is proxied, so it can be recorded whatever the outcome
+    let usage: Pick<UsageEvent, 'requestId' | 'clientId' | 'keyId' | 'targetId' | 'method' | 'timestamp'> | null = null;
 
     try {
       // Skip CORS preflight requests
@@ -22,15 +51,32 @@ export default {
         return handleCors(request, env);
       }
 
-      // Get API key from header
-      const apiKey = request.headers.get('X-API-Key');
-      if (!apiKey) {
+      // Get API key from the X-API-Key header, the Authorization header or the query string, or a JWT bearer token
+      const url = new URL(request.url);
+      const presentedKey = extractApiKey(request, url);
+      const jwt = extractJwt(request);
+      if (!presentedKey && !jwt) {
         return errorResponse(401, 'API key required', { 'X-Request-ID': requestId }, request, env);
       }
 
-      // Validate API key and get the config
-      const apiKeyConfig = await getApiKeyConfig(apiKey, env);
-      if (!apiKeyConfig || !apiKeyConfig.clientId || !apiKeyConfig.targetId) {
+      if (presentedKey && 'error' in presentedKey) {
+        return errorResponse(400, presentedKey.error, { 'X-Request-ID': requestId }, request, env);
+      }
+
+      // Validate API key and get the config, JWTs are verified by the target matching the path and mapped to a key config.
+      // A presented API key wins, so a bearer token sent alongside it (e.g. for the upstream) is left alone
+      let apiKeyConfig: ApiKeyConfig | null;
+      if (presentedKey) {
+        apiKeyConfig = await getApiKeyConfig(presentedKey.apiKey, env);
+      } else {
+        const jwtResult = await authenticateJwt(jwt as string, url.pathname, env);
+        if ('error' in jwtResult) {
+          return errorResponse(jwtResult.status, jwtResult.error, { 'X-Request-ID': requestId }, request, env);
+        }
+        apiKeyConfig = jwtResult.apiKeyConfig;
+      }
+      const allowedTargetIds = apiKeyConfig ? getAllowedTargetIds(apiKeyConfig) : [];
+      if (!apiKeyConfig || !apiKeyConfig.clientId || !allowedTargetIds.length) {
         return errorResponse(403, 'Invalid API key', { 'X-Request-ID': requestId }, request, env);
       }
 
@@ -39,30 +85,136 @@ export default {
         return errorResponse(403, 'API key expired or inactive', { 'X-Request-ID': requestId }, request, env);
       }
 
-      // Get the target config by API key
-      const targetConfig = getTargetConfig(apiKeyConfig.targetId);
-      if (!targetConfig) {
+      // Check if the API key was rotated and its grace period is over
+      if (apiKeyConfig.rotatedTo && (apiKeyConfig.rotationGraceEndsAt ?? 0) < Date.now()) {
+        return errorResponse(403, 'API key rotated', { 'X-Request-ID': requestId }, request, env);
+      }
+
+      // Check the IP, origin and country restrictions of the API key
+      const restrictionReason = checkRestrictions(apiKeyConfig, request);
+      if (restrictionReason) {
+        return errorResponse(
+          403,
+          restrictionErrorMessage(restrictionReason),
+          { 'X-Restriction-Reason': restrictionReason, 'X-Request-ID': requestId },
+          request,
+          env
+        );
+      }
+
+      // Get the targets the API key may access
+      const allowedTargetConfigs = await getAllowedTargetConfigs(allowedTargetIds, env);
+      if (!allowedTargetConfigs.length) {
         return errorResponse(404, 'Target not found for this API key', { 'X-Request-ID': requestId }, request, env);
       }
 
-      // Check if the path matches the target pattern
-      const url = new URL(request.url);
+      // Select the target matching the request path
       const path = url.pathname;
-      if (!matchTargetPattern(path, targetConfig)) {
+      const targetConfig = selectTargetConfig(path, allowedTargetConfigs);
+      if (!targetConfig) {
         return errorResponse(404, 'Target not found for this path', { 'X-Request-ID': requestId }, request, env);
       }
 
-      // Check if the client has enough credits to process the request
-      creditResult = await processCredits(targetConfig, apiKeyConfig.clientId, env);
+      // Check the target accepts the way the API key was presented (e.g. no query-string keys for sensitive targets)
+      if (presentedKey && !isTransportAllowed(presentedKey, targetConfig)) {
+        return errorResponse(401, 'API key transport not allowed for this target', { 'X-Request-ID': requestId }, request, env);
+      }
+
+      // Targets accepting both credentials cannot tell which one the bearer token was meant as
+      if (presentedKey && jwt && targetConfig.authMode === 'both') {
+        return errorResponse(400, 'Conflicting credentials', { 'X-Request-ID': requestId }, request, env);
+      }
+
+      // Enforce the key and client rate limits before touching credits
+      clientId = apiKeyConfig.clientId;
+      const clientConfig = await getClientConfig(clientId, env);
+      const rateLimitResult = await checkRateLimits(apiKeyConfig, clientConfig, targetConfig, env);
+      if (rateLimitResult && !rateLimitResult.allowed) {
+        return errorResponse(
+          429,
+          'Rate limit exceeded',
+          {
+            ...rateLimitHeaders(rateLimitResult),
+            'X-Request-ID': requestId,
+          },
+          request,
+          env
+        );
+      }
+
+      // Fail fast while the target circuit is open
+      const circuitResult = await checkCircuit(targetConfig, env);
+      if (circuitResult && !circuitResult.allowed) {
+        return errorResponse(
+          503,
+          'Upstream temporarily unavailable',
+          {
+            'Retry-After': circuitResult.retryAfter.toString(),
+            ...rateLimitHeaders(rateLimitResult),
+            'X-Request-ID': requestId,
+          },
+          request,
+          env
+        );
+      }
+
+      // Pick the upstream origin, skipping origins ejected after consecutive failures
+      const origin = selectOrigin(targetConfig);
+      if (!origin) {
+        return errorResponse(502, 'No upstream origin configured', { 'X-Request-ID': requestId }, request, env);
+      }
+
+      // Build the target URL with the relative path
+      const relativePath = extractRelativePath(path, targetConfig);
+
+      // Check if the client has enough credits to process the request at the price of the matching rule
+      const price = resolvePrice(targetConfig, request.method, relativePath);
+
+      // Count the request against the key quotas, independently of the client balance
+      quotaKeyId = getQuotaKeyId(apiKeyConfig);
+      quotaResult = await consumeQuota(apiKeyConfig, price.reserve, env);
+      if (quotaResult && !quotaResult.allowed) {
+        return errorResponse(
+          429,
+          quotaErrorMessage(quotaResult),
+          {
+            ...quotaHeaders(quotaResult),
+            ...rateLimitHeaders(rateLimitResult),
+            'X-Request-ID': requestId,
+          },
+          request,
+          env
+        );
+      }
+
+      // Holds are keyed by a full UUID, the short request ID could collide between concurrent requests of a client
+      const reservationId = crypto.randomUUID();
+      try {
+        creditResult = await processCredits(price, clientId, reservationId, requestId, env);
+      } catch (error: unknown) {
+        // The request is not served, so it does not count towards the quotas
+        if (quotaResult) {
+          refundQuota(quotaKeyId, quotaResult, 1, price.reserve, env, ctx);
+        }
+        throw error;
+      }
+      reservedCredits = price.reserve;
 
       // If not enough credits, return a 402 (Payment Required) error
       if (!creditResult.success) {
+        // The request is not served, so it does not count towards the quotas
+        if (quotaResult) {
+          refundQuota(quotaKeyId, quotaResult, 1, reservedCredits, env, ctx);
+        }
+
         return errorResponse(
           402,
           'Insufficient credits',
           {
             'X-Credits-Remaining': creditResult.remaining.toString(),
-            'X-Credits-Required': targetConfig.costInfo.cost.toString(),
+            'X-Credits-Required': price.reserve.toString(),
+            'X-Credits-Rule': price.rule,
+            ...rateLimitHeaders(rateLimitResult),
             'X-Request-ID': requestId,
           },
           request,
@@ -70,57 +222,120 @@ export default {
         );
       }
 
-      // Build the target URL with the relative path
-      const relativePath = extractRelativePath(path, targetConfig);
-
       // Remove trailing slash from relativePath (except for root path '/')
       const cleanRelativePath = relativePath.length > 1 && relativePath.endsWith('/') ? relativePath.slice(0, -1) : relativePath;
 
-      // Remove trailing slash from targetUrl if it exists
-      const targetUrlBase = targetConfig.targetUrl.endsWith('/') ? targetConfig.targetUrl.slice(0, -1) : targetConfig.targetUrl;
+      // Remove trailing slash from the origin URL if it exists
+      const targetUrlBase = origin.url.endsWith('/') ? origin.url.slice(0, -1) : origin.url;
 
       const targetUrl = new URL(`${targetUrlBase}${cleanRelativePath}`);
       targetUrl.search = url.search;
-      console.log('targetUrl', targetUrl.toString(), targetConfig.targetUrl, cleanRelativePath);
-
-      // Create the fetch request with the target URL and the original request
-      const fetchRequest = new Request(targetUrl, {
-        method: request.method,
-        headers: request.headers,
-        body: request.body,
-        redirect: 'follow',
-      });
+      // Never forward the API key to the upstream, leaving the query string untouched otherwise
+      if (presentedKey?.transports.includes('query')) {
+        targetUrl.searchParams.delete(API_KEY_QUERY_PARAM);
+      }
+      applyQueryInjection(targetUrl, targetConfig.transform?.request?.query);
 
-      // Modify headers to bypass Cloudflare security
-      // Remove headers that might trigger Cloudflare security
-      fetchRequest.headers.delete('cf-connecting-ip');
-      fetchRequest.headers.delete('cf-ipcountry');
-      fetchRequest.headers.delete('cf-ray');
-      fetchRequest.headers.delete('cf-visitor');
-      fetchRequest.headers.delete('x-forwarded-for');
-      fetchRequest.headers.delete('x-forwarded-proto');
+      // Create the fetch request with the target URL, identity headers and upstream credentials
+      const fetchRequest = await buildUpstreamRequest(
+        request,
+        targetUrl,
+        targetConfig,
+        { clientId, keyId: apiKeyConfig.keyId, requestId },
+        env
+      );
 
       logDebug('gateway', `Proxying request: ${request.method} ${targetUrl.toString()}`, {
         requestId,
         origin: request.headers.get('Origin'),
+        upstream: origin.url,
       });
 
       // Forward the request to the target
-      const targetResponse = await fetch(fetchRequest);
+      usage = {
+        requestId,
+        clientId,
+        keyId: apiKeyConfig.keyId,
+        targetId: targetConfig.id,
+        method: request.method,
+        timestamp: Date.now(),
+      };
+      let targetResponse: Response;
+      try {
+        targetResponse = await fetchUpstream(fetchRequest, targetConfig, requestId);
+      } catch (error: unknown) {
+        reportOriginOutcome(targetConfig, origin, false);
+        reportUpstreamOutcome(targetConfig, false, env, ctx);
+        throw error;
+      }
+      reportOriginOutcome(targetConfig, origin, targetResponse.status < 500);
+      reportUpstreamOutcome(targetConfig, targetResponse.status < 500, env, ctx);
+      const latencyMs = Date.now() - usage.timestamp;
+
+      // Settle the credit reservation: refund upstream failures, charge everything else
+      if (isRefundableStatus(targetResponse.status, targetConfig)) {
+        creditResult = await releaseCredits(clientId, reservationId, env);
+        logDebug('gateway', `Released credits after upstream status ${targetResponse.status}`, { requestId });
+      } else if (price.metering) {
+        // Charge what the upstream reports, falling back to the rule cost, never above the reservation
+        const meteredCost = await readMeteredCost(targetResponse, price.metering);
+        creditResult = await settleCredits(clientId, reservationId, meteredCost ?? price.cost, env);
+      } else {
+        creditResult = await commitCredits(clientId, reservationId, env);
+      }
+
+      recordUsage({ ...usage, status: targetResponse.status, latencyMs, creditsUsed: creditResult.used }, env, ctx);
+
+      // Credits refunded or metered below the reservation do not count towards the quotas
+      if (quotaResult) {
+        refundQuota(quotaKeyId, quotaResult, 0, reservedCredits - creditResult.used, env, ctx);
+      }
 
-      // Clone the response and add a custom gateway headers
+      // Clone the response, apply the target response header rules and add a custom gateway headers
       const modifiedResponse = new Response(targetResponse.body, targetResponse);
+      applyHeaderRules(modifiedResponse.headers, targetConfig.transform?.response?.headers);
       modifiedResponse.headers.set('X-Credits-Remaining', creditResult.remaining.toString());
       modifiedResponse.headers.set('X-Credits-Used', creditResult.used.toString());
       modifiedResponse.headers.set('X-Request-ID', requestId);
+      if (targetConfig.exposeUpstreamHeader) {
+        modifiedResponse.headers.set('X-Apiki-Upstream', new URL(origin.url).host);
+      }
+      for (const [name, value] of Object.entries({ ...rateLimitHeaders(rateLimitResult), ...quotaHeaders(quotaResult) })) {
+        modifiedResponse.headers.set(name, value);
+      }
 
       // Return the response with security headers
       return secureResponse(modifiedResponse, request, env);
     } catch (error: unknown) {
       console.error(`Gateway error (${requestId}):`, error instanceof Error ? error.message : String(error));
+
+      // Release any credits still held for this request (e.g. network failure reaching the upstream)
+      if (clientId && creditResult.reservationId) {
+        try {
+          creditResult = await releaseCredits(clientId, creditResult.reservationId, env);
+
+          // Released credits do not count towards the quotas
+          if (quotaKeyId && quotaResult) {
+            refundQuota(quotaKeyId, quotaResult, 0, reservedCredits - creditResult.used, env, ctx);
+          }
+        } catch (releaseError: unknown) {
+          console.error(
+            `Failed to release credits (${requestId}):`,
+            releaseError instanceof Error ? releaseError.message : String(releaseError)
+          );
+        }
+      }
+
+      // Upstream timeouts are answered with a 504, anything else with a 500
+      const status = isTimeoutError(error) ? 504 : 500;
+
+      if (usage) {
+        recordUsage({ ...usage, status, latencyMs: Date.now() - usage.timestamp, creditsUsed: creditResult.used }, env, ctx);
+      }
+
       return errorResponse(
-        500,
-        'Internal Server Error',
+        status,
+        status === 504 ? 'Upstream timeout' : 'Internal Server Error',
         {
           'X-Credits-Remaining': creditResult.remaining.toString(),
           'X-Credits-Used': creditResult.used.toString(),
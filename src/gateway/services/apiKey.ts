@@ -1,9 +1,33 @@
 import type { ApiKeyConfig } from '@/shared/types';
-import { KV_API_KEY } from '@/shared/utils/kv';
+import { getApiKeyHash, migrateLegacyApiKey } from '@/shared/utils/apiKey';
+import { KV_API_KEY, KV_API_KEY_HASH } from '@/shared/utils/kv';
 
 /**
  * Get API key config
+ * Legacy records stored under the plaintext key are copied to hashed storage on first use
  */
 export async function getApiKeyConfig(apiKey: string, env: Env): Promise<ApiKeyConfig | null> {
-  return await KV_API_KEY.get<ApiKeyConfig>(apiKey, env);
+  const keyHash = await getApiKeyHash(apiKey, env);
+  const apiKeyConfig = await KV_API_KEY_HASH.get<ApiKeyConfig>(keyHash, env);
+  if (apiKeyConfig) {
+    return apiKeyConfig;
+  }
+
+  const legacyConfig = await KV_API_KEY.get<Omit<ApiKeyConfig, 'keyId'>>(apiKey, env);
+  if (!legacyConfig) {
+    return null;
+  }
+
+  return await migrateLegacyApiKey(apiKey, legacyConfig, env);
+}
+
+/**
+ * Get the target IDs an API key may access, supporting legacy single-target keys
+ */
+export function getAllowedTargetIds(apiKeyConfig: ApiKeyConfig): string[] | '*' {
+  if (apiKeyConfig.targetIds) {
+    return apiKeyConfig.targetIds;
+  }
+
+  return apiKeyConfig.targetId ? [apiKeyConfig.targetId] : [];
 }
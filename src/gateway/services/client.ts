@@ -0,0 +1,9 @@
+import type { ClientConfig } from '@/shared/types';
+import { KV_CLIENT } from '@/shared/utils/kv';
+
+/**
+ * Get client config
+ */
+export async function getClientConfig(clientId: string, env: Env): Promise<ClientConfig | null> {
+  return await KV_CLIENT.get<ClientConfig>(clientId, env);
+}
@@ -0,0 +1,68 @@
+import type { ApiKeyTransport, TargetConfig } from '@/shared/types';
+import { API_KEY_PREFIX } from '@/shared/utils/crypto';
+
+import { isJwt } from './jwt';
+
+// Query parameter carrying the API key, removed before proxying
+export const API_KEY_QUERY_PARAM = 'api_key';
+
+const ALL_TRANSPORTS: ApiKeyTransport[] = ['header', 'bearer', 'query'];
+
+export interface PresentedApiKey {
+  apiKey: string;
+  // Every transport the key was presented with
+  transports: ApiKeyTransport[];
+}
+
+/**
+ * Read the token of an Authorization: Bearer header
+ */
+function getBearerToken(request: Request): string | null {
+  return request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)\s*$/i)?.[1] ?? null;
+}
+
+/**
+ * Read a JWT from the Authorization: Bearer header
+ */
+export function extractJwt(request: Request): string | null {
+  const bearer = getBearerToken(request);
+  return bearer && isJwt(bearer) ? bearer : null;
+}
+
+/**
+ * Read the API key from the X-API-Key header, an apk_ prefixed Authorization: Bearer token or the api_key query parameter.
+ * Returns null if no key is presented, or an error if different keys are presented.
+ */
+export function extractApiKey(request: Request, url: URL): PresentedApiKey | { error: string } | null {
+  const bearer = getBearerToken(request);
+  const candidates: [ApiKeyTransport, string | null | undefined][] = [
+    ['header', request.headers.get('X-API-Key')],
+    // Only prefixed bearer tokens are API keys, others (e.g. JWTs or upstream tokens) are left alone
+    ['bearer', bearer?.startsWith(API_KEY_PREFIX) ? bearer : null],
+    ...url.searchParams.getAll(API_KEY_QUERY_PARAM).map((value): [ApiKeyTransport, string] => ['query', value]),
+  ];
+
+  const presented = candidates.filter((candidate): candidate is [ApiKeyTransport, string] => !!candidate[1]);
+  if (!presented.length) {
+    return null;
+  }
+
+  const apiKey = presented[0][1];
+  if (presented.some(([, value]) => value !== apiKey)) {
+    return { error: 'Conflicting API keys' };
+  }
+
+  return { apiKey, transports: [...new Set(presented.map(([transport]) => transport))] };
+}
+
+/**
+ * Check that the target accepts API keys, and every transport the key was presented with
+ */
+export function isTransportAllowed(presented: PresentedApiKey, targetConfig: TargetConfig): boolean {
+  if (targetConfig.authMode === 'jwt') {
+    return false;
+  }
+
+  const allowed = targetConfig.apiKeyTransports ?? ALL_TRANSPORTS;
+  return presented.transports.every((transport) => allowed.includes(transport));
+}
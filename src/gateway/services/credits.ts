@@ -1,30 +1,49 @@
-import type { CreditResult, TargetConfig } from '@/shared/types';
-import { KV_CREDITS } from '@/shared/utils/kv';
+import { getCreditLedger } from '@/shared/durable/creditLedger';
+import type { CreditResult, ResolvedPrice, TargetConfig } from '@/shared/types';
+
+// Upstream statuses refunded when a target does not configure its own list
+const DEFAULT_REFUNDABLE_STATUSES = [500, 502, 503, 504];
 
 /**
- * Process credits for a request
+ * Process credits for a request by reserving its price.
+ * The reservation must be settled with commitCredits, settleCredits or releaseCredits.
  */
-export async function processCredits(targetConfig: TargetConfig, clientId: string, env: Env): Promise<CreditResult> {
-  // Get the client balance
-  const balance = await KV_CREDITS.getString(clientId, env);
-  const clientBalance = balance ? parseInt(balance) : 0;
+export async function processCredits(
+  price: ResolvedPrice,
+  clientId: string,
+  reservationId: string,
+  requestId: string,
+  env: Env
+): Promise<CreditResult> {
+  // Check and hold the cost atomically in the client's ledger
+  return await getCreditLedger(clientId, env).reserve(clientId, reservationId, price.reserve, { requestId });
+}
 
-  // Check if the client has enough credits
-  if (targetConfig.costInfo.cost > clientBalance) {
-    return {
-      success: false,
-      remaining: clientBalance,
-      used: 0,
-    };
-  }
+/**
+ * Commit a credit reservation once the upstream has answered successfully
+ */
+export async function commitCredits(clientId: string, reservationId: string, env: Env): Promise<CreditResult> {
+  return await getCreditLedger(clientId, env).commit(reservationId);
+}
+
+/**
+ * Settle a credit reservation for the metered cost, refunding the rest of the reservation
+ */
+export async function settleCredits(clientId: string, reservationId: string, amount: number, env: Env): Promise<CreditResult> {
+  return await getCreditLedger(clientId, env).settle(reservationId, amount);
+}
 
-  // Update the client balance
-  const newBalance = clientBalance - targetConfig.costInfo.cost;
-  await KV_CREDITS.putString(clientId, newBalance.toString(), env);
+/**
+ * Release a credit reservation after an upstream failure
+ */
+export async function releaseCredits(clientId: string, reservationId: string, env: Env): Promise<CreditResult> {
+  return await getCreditLedger(clientId, env).release(reservationId);
+}
 
-  return {
-    success: true,
-    remaining: newBalance,
-    used: targetConfig.costInfo.cost,
-  };
+/**
+ * Check if an upstream status should release the reserved credits
+ */
+export function isRefundableStatus(status: number, targetConfig: TargetConfig): boolean {
+  const refundableStatuses = targetConfig.costInfo.refundableStatuses ?? DEFAULT_REFUNDABLE_STATUSES;
+  return refundableStatuses.includes(status);
 }
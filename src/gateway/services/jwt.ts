@@ -0,0 +1,249 @@
+import type { ApiKeyConfig, JwtAlgorithm, JwtAuthConfig } from '@/shared/types';
+import { fromBase64Url } from '@/shared/utils/crypto';
+import { logDebug } from '@/shared/utils/logging';
+import { isJwtSecretName, JWT_SECRET_PREFIX } from '@/shared/utils/secrets';
+
+import { getAllowedTargetConfigs, selectTargetConfig } from './target';
+
+// Default allowed clock skew for exp and nbf, in seconds
+const DEFAULT_CLOCK_TOLERANCE = 60;
+
+interface AlgorithmParams {
+  // Key type of the JWKS keys usable with the algorithm
+  kty: string;
+  importParams: SubtleCryptoImportKeyAlgorithm;
+  verifyParams: string | SubtleCryptoSignAlgorithm;
+}
+
+// WebCrypto parameters of each supported algorithm
+const ALGORITHMS: Record<JwtAlgorithm, AlgorithmParams> = {
+  RS256: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verifyParams: 'RSASSA-PKCS1-v1_5',
+  },
+  ES256: {
+    kty: 'EC',
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+  HS256: {
+    kty: 'oct',
+    importParams: { name: 'HMAC', hash: 'SHA-256' },
+    verifyParams: 'HMAC',
+  },
+};
+
+// In-isolate cache of imported verification keys, so JWKS keys are only imported once per isolate
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+type JwtClaims = Record<string, unknown> & {
+  iss?: unknown;
+  aud?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+  sub?: unknown;
+};
+
+/**
+ * Check that a bearer token has the shape of a JWT (three base64url segments)
+ */
+export function isJwt(token: string): boolean {
+  return /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(token);
+}
+
+/**
+ * Decode a base64url JSON segment of a JWT
+ */
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(fromBase64Url(segment))) as T;
+}
+
+/**
+ * Resolve the Worker secret holding an HS256 key, refusing names without the JWT secret prefix
+ */
+function resolveJwtSecret(secretName: string, env: Env): string {
+  if (!isJwtSecretName(secretName)) {
+    throw new Error(`Secret ${secretName} cannot be used as a JWT key, names must start with ${JWT_SECRET_PREFIX}`);
+  }
+
+  const value = (env as unknown as Record<string, unknown>)[secretName];
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`JWT secret ${secretName} is not configured`);
+  }
+  return value;
+}
+
+/**
+ * Get the keys that may have signed a token: the HS256 secret, or the JWKS keys of the token algorithm and key ID
+ */
+function getVerificationKeys(algorithm: JwtAlgorithm, kid: string | undefined, config: JwtAuthConfig, env: Env): Promise<CryptoKey>[] {
+  const { kty, importParams } = ALGORITHMS[algorithm];
+
+  if (algorithm === 'HS256') {
+    if (!config.secret) {
+      return [];
+    }
+
+    const secretName = config.secret;
+    const cacheKey = `${algorithm}:secret:${secretName}`;
+    if (!keyCache.has(cacheKey)) {
+      const secret = new TextEncoder().encode(resolveJwtSecret(secretName, env));
+      keyCache.set(cacheKey, crypto.subtle.importKey('raw', secret, importParams, false, ['verify']));
+    }
+    return [keyCache.get(cacheKey) as Promise<CryptoKey>];
+  }
+
+  const jwks = (config.jwks?.keys ?? []).filter(
+    (jwk) => jwk.kty === kty && (!jwk.alg || jwk.alg === algorithm) && (!jwk.use || jwk.use === 'sig') && (!kid || jwk.kid === kid)
+  );
+
+  return jwks.map((jwk) => {
+    const cacheKey = `${algorithm}:${JSON.stringify(jwk)}`;
+    if (!keyCache.has(cacheKey)) {
+      const promise = crypto.subtle.importKey('jwk', jwk, importParams, false, ['verify']);
+      // Do not cache failed imports, so a fixed config is picked up
+      promise.catch(() => keyCache.delete(cacheKey));
+      keyCache.set(cacheKey, promise);
+    }
+    return keyCache.get(cacheKey) as Promise<CryptoKey>;
+  });
+}
+
+/**
+ * Verify the signature and the iss, aud, exp and nbf claims of a JWT.
+ * Returns the claims, or an error message.
+ */
+export async function verifyJwt(token: string, config: JwtAuthConfig, env: Env): Promise<{ claims: JwtClaims } | { error: string }> {
+  const [encodedHeader, encodedClaims, encodedSignature] = token.split('.');
+
+  let header: JwtHeader;
+  let claims: JwtClaims;
+  let signature: Uint8Array;
+  try {
+    header = decodeSegment<JwtHeader>(encodedHeader);
+    claims = decodeSegment<JwtClaims>(encodedClaims);
+    signature = fromBase64Url(encodedSignature);
+  } catch {
+    return { error: 'Malformed token' };
+  }
+
+  if (typeof claims !== 'object' || claims === null) {
+    return { error: 'Malformed token' };
+  }
+
+  // Only the configured algorithms are accepted, never 'none'
+  const algorithm = header.alg as JwtAlgorithm;
+  const allowedAlgorithms = config.algorithms ?? (Object.keys(ALGORITHMS) as JwtAlgorithm[]);
+  if (!(algorithm in ALGORITHMS) || !allowedAlgorithms.includes(algorithm)) {
+    return { error: 'Token algorithm not allowed' };
+  }
+
+  let keys: Promise<CryptoKey>[];
+  try {
+    keys = getVerificationKeys(algorithm, header.kid, config, env);
+  } catch (error) {
+    // E.g. the HS256 secret is not set on the gateway worker
+    console.error('Error loading the token verification keys:', error instanceof Error ? error.message : String(error));
+    return { error: 'No key to verify the token' };
+  }
+  if (!keys.length) {
+    return { error: 'No key to verify the token' };
+  }
+
+  const signedData = new TextEncoder().encode(`${encodedHeader}.${encodedClaims}`);
+  let verified = false;
+  for (const key of keys) {
+    try {
+      if (await crypto.subtle.verify(ALGORITHMS[algorithm].verifyParams, await key, signature, signedData)) {
+        verified = true;
+        break;
+      }
+    } catch (error) {
+      logDebug('jwt', 'Unusable token verification key', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  if (!verified) {
+    return { error: 'Invalid token signature' };
+  }
+
+  if (claims.iss !== config.issuer) {
+    return { error: 'Invalid token issuer' };
+  }
+
+  if (config.audience !== undefined) {
+    const expected = Array.isArray(config.audience) ? config.audience : [config.audience];
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.some((audience) => typeof audience === 'string' && expected.includes(audience))) {
+      return { error: 'Invalid token audience' };
+    }
+  }
+
+  // Tokens must be short-lived, so exp is required
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = config.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE;
+  if (typeof claims.exp !== 'number' || claims.exp + tolerance <= now) {
+    return { error: 'Token expired' };
+  }
+
+  if (claims.nbf !== undefined && (typeof claims.nbf !== 'number' || claims.nbf - tolerance > now)) {
+    return { error: 'Token not yet valid' };
+  }
+
+  return { claims };
+}
+
+/**
+ * Authenticate a request with a JWT: select the JWT-enabled target matching the path, verify the token
+ * with that target's settings, and map the token client ID claim to a gateway client with the target mapping.
+ * The key config lets the rest of the request flow (rate limits, credits, usage) treat JWT callers like API keys.
+ */
+export async function authenticateJwt(
+  token: string,
+  path: string,
+  env: Env
+): Promise<{ apiKeyConfig: ApiKeyConfig } | { status: number; error: string }> {
+  const jwtTargetConfigs = (await getAllowedTargetConfigs('*', env)).filter(
+    (config) => (config.authMode === 'jwt' || config.authMode === 'both') && config.jwt
+  );
+  const targetConfig = selectTargetConfig(path, jwtTargetConfigs);
+  if (!targetConfig?.jwt) {
+    return { status: 401, error: 'Token not accepted for this path' };
+  }
+
+  const result = await verifyJwt(token, targetConfig.jwt, env);
+  if ('error' in result) {
+    logDebug('jwt', `Rejected token for target ${targetConfig.id}`, { reason: result.error });
+    return { status: 401, error: result.error };
+  }
+
+  const claimedClientId = result.claims[targetConfig.jwt.clientIdClaim ?? 'sub'];
+  if (typeof claimedClientId !== 'string' || !claimedClientId) {
+    return { status: 403, error: 'Token has no client ID claim' };
+  }
+
+  // The claim is only trusted through the target mapping, so an identity provider can never act as any gateway client
+  const clients = targetConfig.jwt.clients ?? {};
+  const clientId = Object.prototype.hasOwnProperty.call(clients, claimedClientId) ? clients[claimedClientId] : undefined;
+  if (!clientId) {
+    logDebug('jwt', `Rejected token of unmapped client for target ${targetConfig.id}`, { claimedClientId });
+    return { status: 403, error: 'Token client not allowed' };
+  }
+
+  return {
+    apiKeyConfig: {
+      keyId: `jwt:${clientId}`,
+      clientId,
+      active: true,
+      // The token expiry was checked above, with the clock tolerance
+      expiresAt: null,
+      // Only the target that verified the token
+      targetIds: [targetConfig.id],
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import type { OriginConfig, TargetConfig } from '@/shared/types';
+import { logDebug } from '@/shared/utils/logging';
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 30000;
+
+interface OriginHealth {
+  consecutiveFailures: number;
+  lastFailureAt: number;
+  ejectedUntil: number;
+}
+
+// Passive health of each origin, tracked per isolate from the outcome of proxied requests
+const originHealth = new Map<string, OriginHealth>();
+
+// Round-robin position of each target in this isolate
+const roundRobinCounters = new Map<string, number>();
+
+/**
+ * Get the origins of a target, supporting single-origin targets
+ */
+export function getOrigins(targetConfig: TargetConfig): OriginConfig[] {
+  if (targetConfig.origins?.length) {
+    return targetConfig.origins;
+  }
+
+  return targetConfig.targetUrl ? [{ url: targetConfig.targetUrl }] : [];
+}
+
+function getHealth(targetId: string, originUrl: string): OriginHealth {
+  const key = `${targetId}:${originUrl}`;
+  let health = originHealth.get(key);
+  if (!health) {
+    health = { consecutiveFailures: 0, lastFailureAt: 0, ejectedUntil: 0 };
+    originHealth.set(key, health);
+  }
+  return health;
+}
+
+/**
+ * Select the origin for a request, skipping ejected origins.
+ * When every origin is ejected, all of them are considered again rather than failing the request.
+ */
+export function selectOrigin(targetConfig: TargetConfig): OriginConfig | null {
+  const origins = getOrigins(targetConfig);
+  if (origins.length <= 1) {
+    return origins[0] ?? null;
+  }
+
+  const now = Date.now();
+  const healthyOrigins = origins.filter((origin) => getHealth(targetConfig.id, origin.url).ejectedUntil <= now);
+  const candidates = healthyOrigins.length ? healthyOrigins : origins;
+
+  switch (targetConfig.loadBalancing?.strategy ?? 'round-robin') {
+    case 'weighted': {
+      const totalWeight = candidates.reduce((total, origin) => total + (origin.weight ?? 1), 0);
+      let pick = Math.random() * totalWeight;
+      for (const origin of candidates) {
+        pick -= origin.weight ?? 1;
+        if (pick < 0) {
+          return origin;
+        }
+      }
+      return candidates[candidates.length - 1];
+    }
+
+    case 'least-recently-failed':
+      return candidates.reduce((best, origin) =>
+        getHealth(targetConfig.id, origin.url).lastFailureAt < getHealth(targetConfig.id, best.url).lastFailureAt ? origin : best
+      );
+
+    case 'round-robin':
+    default: {
+      const counter = roundRobinCounters.get(targetConfig.id) ?? 0;
+      roundRobinCounters.set(targetConfig.id, counter + 1);
+      return candidates[counter % candidates.length];
+    }
+  }
+}
+
+/**
+ * Record the outcome of a request to an origin, ejecting it after consecutive failures
+ */
+export function reportOriginOutcome(targetConfig: TargetConfig, origin: OriginConfig, success: boolean): void {
+  const health = getHealth(targetConfig.id, origin.url);
+
+  if (success) {
+    health.consecutiveFailures = 0;
+    return;
+  }
+
+  const now = Date.now();
+  health.consecutiveFailures++;
+  health.lastFailureAt = now;
+
+  if (health.consecutiveFailures >= (targetConfig.loadBalancing?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+    health.ejectedUntil = now + (targetConfig.loadBalancing?.cooldownMs ?? DEFAULT_COOLDOWN_MS);
+    health.consecutiveFailures = 0;
+    logDebug('origin', `Ejected origin ${origin.url} of target ${targetConfig.id}`, { ejectedUntil: health.ejectedUntil });
+  }
+}
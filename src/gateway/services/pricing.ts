@@ -0,0 +1,85 @@
+import type { MeteringConfig, PricingRule, ResolvedPrice, TargetConfig } from '@/shared/types';
+import { logDebug } from '@/shared/utils/logging';
+
+// Largest response body read for a metered cost, larger or unsized (streamed) bodies are charged the rule cost
+const MAX_METERED_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Check if a pricing rule applies to a request
+ */
+function matchPricingRule(rule: PricingRule, method: string, relativePath: string): boolean {
+  if (rule.methods?.length && !rule.methods.some((ruleMethod) => ruleMethod.toUpperCase() === method)) {
+    return false;
+  }
+
+  if (rule.path === undefined) {
+    return true;
+  }
+
+  // Handle wildcard sub-paths (e.g., /chat/*)
+  if (rule.path.endsWith('*')) {
+    return relativePath.startsWith(rule.path.slice(0, -1));
+  }
+
+  return relativePath === rule.path;
+}
+
+/**
+ * Resolve the price of a request: the first matching pricing rule, or the flat target cost
+ */
+export function resolvePrice(targetConfig: TargetConfig, method: string, relativePath: string): ResolvedPrice {
+  const rule = targetConfig.costInfo.rules?.find((rule) => matchPricingRule(rule, method, relativePath));
+  const { name, cost, metering } = rule ?? { name: 'default', ...targetConfig.costInfo };
+
+  return {
+    rule: name,
+    // Metered requests hold the pre-authorized maximum until the actual cost is known
+    reserve: metering ? metering.maxCost : cost,
+    cost,
+    ...(metering && { metering }),
+  };
+}
+
+/**
+ * Check that a response body can be read for its metered cost: JSON, with a known size within the cap
+ */
+function isMeterableBody(response: Response): boolean {
+  const contentType = response.headers.get('Content-Type')?.split(';')[0].trim().toLowerCase() ?? '';
+  if (contentType !== 'application/json' && !contentType.endsWith('+json')) {
+    return false;
+  }
+
+  const contentLength = Number(response.headers.get('Content-Length') ?? NaN);
+  return Number.isInteger(contentLength) && contentLength <= MAX_METERED_BODY_BYTES;
+}
+
+/**
+ * Read the actual cost reported by the upstream, or null if it reported none
+ * Reading a JSON field consumes a clone of the response, so the original body stays readable
+ */
+export async function readMeteredCost(response: Response, metering: MeteringConfig): Promise<number | null> {
+  if (metering.header) {
+    // A blank header counts as missing, Number('') would make the request free
+    const headerValue = response.headers.get(metering.header)?.trim();
+    const cost = headerValue ? Number(headerValue) : NaN;
+    if (Number.isFinite(cost) && cost >= 0) {
+      return cost;
+    }
+  }
+
+  if (metering.jsonField && isMeterableBody(response)) {
+    try {
+      const body = await response.clone().json();
+      const value = metering.jsonField.split('.').reduce<unknown>((current, field) => {
+        return current && typeof current === 'object' ? (current as Record<string, unknown>)[field] : undefined;
+      }, body);
+      if (typeof value === 'number' && value >= 0) {
+        return value;
+      }
+    } catch (error) {
+      logDebug('pricing', 'Unable to read metered cost from response body', { error });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,71 @@
+import { getQuotaKeyId, getQuotaTracker } from '@/shared/durable/quotaTracker';
+import type { ApiKeyConfig, QuotaResult } from '@/shared/types';
+
+/**
+ * Count a request and its credits against the quotas of its key.
+ * Returns null if the key has no quota.
+ */
+export async function consumeQuota(apiKeyConfig: ApiKeyConfig, credits: number, env: Env): Promise<QuotaResult | null> {
+  const { quota } = apiKeyConfig;
+  if (!quota || (!quota.daily && !quota.monthly)) {
+    return null;
+  }
+
+  return await getQuotaTracker(getQuotaKeyId(apiKeyConfig), env).consume(quota, credits);
+}
+
+/**
+ * Give back requests or credits counted against the quotas of a key, off the hot path
+ */
+export function refundQuota(
+  quotaKeyId: string,
+  result: QuotaResult,
+  requests: number,
+  credits: number,
+  env: Env,
+  ctx: ExecutionContext
+): void {
+  if (requests <= 0 && credits <= 0) {
+    return;
+  }
+
+  ctx.waitUntil(
+    getQuotaTracker(quotaKeyId, env)
+      .refund(result.periodIds, requests, credits)
+      .catch((error: unknown) => {
+        console.error(`Failed to refund quota of API key ${quotaKeyId}:`, error instanceof Error ? error.message : String(error));
+      })
+  );
+}
+
+/**
+ * Error message of a rejected quota, e.g. 'Daily request quota exceeded'
+ */
+export function quotaErrorMessage(result: QuotaResult): string {
+  const period = result.period === 'daily' ? 'Daily' : 'Monthly';
+  const unit = result.unit === 'requests' ? 'request' : 'credit';
+  return `${period} ${unit} quota exceeded`;
+}
+
+/**
+ * Build the X-Quota headers for a quota result
+ */
+export function quotaHeaders(result: QuotaResult | null): Record<string, string> {
+  if (!result) {
+    return {};
+  }
+
+  const headers: Record<string, string> = {
+    'X-Quota-Limit': result.limit.toString(),
+    'X-Quota-Remaining': result.remaining.toString(),
+    'X-Quota-Reset': result.reset.toString(),
+    'X-Quota-Period': result.period,
+    'X-Quota-Unit': result.unit,
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = result.reset.toString();
+  }
+
+  return headers;
+}
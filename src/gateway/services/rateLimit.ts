@@ -0,0 +1,65 @@
+import { getRateLimiter } from '@/shared/durable/rateLimiter';
+import type { ApiKeyConfig, ClientConfig, RateLimitConfig, RateLimitResult, TargetConfig } from '@/shared/types';
+
+/**
+ * Check the rate limits that apply to a request: the key limit (falling back to the target default)
+ * and the client limit. Returns the most restrictive result, or null if no limit applies.
+ * The buckets are consumed one after the other, so a rejected request never spends a token.
+ */
+export async function checkRateLimits(
+  apiKeyConfig: ApiKeyConfig,
+  clientConfig: ClientConfig | null,
+  targetConfig: TargetConfig,
+  env: Env
+): Promise<RateLimitResult | null> {
+  const buckets: [string, RateLimitConfig][] = [];
+
+  const keyRateLimit = apiKeyConfig.rateLimit ?? targetConfig.rateLimit;
+  if (keyRateLimit) {
+    buckets.push([`key:${apiKeyConfig.keyId}`, keyRateLimit]);
+  }
+
+  if (clientConfig?.rateLimit) {
+    buckets.push([`client:${apiKeyConfig.clientId}`, clientConfig.rateLimit]);
+  }
+
+  let mostRestrictive: RateLimitResult | null = null;
+  const consumed: [string, RateLimitConfig][] = [];
+  for (const [bucket, config] of buckets) {
+    const result = await getRateLimiter(bucket, env).consume(config);
+    if (!result.allowed) {
+      // Give back the tokens taken from the buckets checked before
+      await Promise.all(consumed.map(([consumedBucket, consumedConfig]) => getRateLimiter(consumedBucket, env).refund(consumedConfig)));
+      return result;
+    }
+
+    consumed.push([bucket, config]);
+    // Report the bucket closest to running out
+    if (!mostRestrictive || result.remaining < mostRestrictive.remaining) {
+      mostRestrictive = result;
+    }
+  }
+
+  return mostRestrictive;
+}
+
+/**
+ * Build the standard RateLimit headers for a rate limit result
+ */
+export function rateLimitHeaders(result: RateLimitResult | null): Record<string, string> {
+  if (!result) {
+    return {};
+  }
+
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': result.reset.toString(),
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = result.retryAfter.toString();
+  }
+
+  return headers;
+}
@@ -0,0 +1,105 @@
+import { getCircuitBreaker } from '@/shared/durable/circuitBreaker';
+import type { CircuitBreakerResult, TargetConfig } from '@/shared/types';
+import { logDebug } from '@/shared/utils/logging';
+
+const DEFAULT_RETRY_STATUSES = [502, 503, 504];
+
+// Methods that can be sent again without side effects
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Check if an error is an upstream timeout
+ */
+export function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'TimeoutError';
+}
+
+/**
+ * Check the circuit of a target, or null if it has no circuit breaker
+ */
+export async function checkCircuit(targetConfig: TargetConfig, env: Env): Promise<CircuitBreakerResult | null> {
+  const circuitBreaker = targetConfig.resilience?.circuitBreaker;
+  if (!circuitBreaker) {
+    return null;
+  }
+
+  return await getCircuitBreaker(targetConfig.id, env).check(circuitBreaker);
+}
+
+/**
+ * Report an upstream outcome to the circuit of a target, off the hot path
+ */
+export function reportUpstreamOutcome(targetConfig: TargetConfig, success: boolean, env: Env, ctx: ExecutionContext): void {
+  const circuitBreaker = targetConfig.resilience?.circuitBreaker;
+  if (!circuitBreaker) {
+    return;
+  }
+
+  ctx.waitUntil(
+    getCircuitBreaker(targetConfig.id, env)
+      .report(circuitBreaker, success)
+      .catch((error: unknown) => {
+        console.error(`Failed to report upstream outcome for ${targetConfig.id}:`, error instanceof Error ? error.message : String(error));
+      })
+  );
+}
+
+/**
+ * Fetch a request, aborting with a TimeoutError if the response headers take longer than the timeout.
+ * The timer is cleared once the headers arrive, so streamed bodies are never cut.
+ */
+async function fetchWithTimeout(request: Request, timeoutMs: number | undefined): Promise<Response> {
+  if (timeoutMs === undefined) {
+    return await fetch(request);
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new DOMException(`Upstream timed out after ${timeoutMs}ms`, 'TimeoutError')), timeoutMs);
+  try {
+    return await fetch(request, { signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Forward a request to the upstream with the target timeout (if any), retrying idempotent requests
+ * on the configured statuses with exponential backoff. Throws a TimeoutError on timeout.
+ */
+export async function fetchUpstream(fetchRequest: Request, targetConfig: TargetConfig, requestId: string): Promise<Response> {
+  const timeoutMs = targetConfig.resilience?.timeoutMs;
+  const retry = targetConfig.resilience?.retry;
+  const retryStatuses = retry?.statuses ?? DEFAULT_RETRY_STATUSES;
+  const maxAttempts = retry && IDEMPOTENT_METHODS.includes(fetchRequest.method) ? retry.attempts + 1 : 1;
+  const backoffMs = retry?.backoffMs ?? 0;
+
+  for (let attempt = 1; ; attempt++) {
+    const isLastAttempt = attempt >= maxAttempts;
+
+    // Keep an untouched copy of the request (and its body) for the next attempt
+    const attemptRequest = isLastAttempt ? fetchRequest : fetchRequest.clone();
+
+    try {
+      const response = await fetchWithTimeout(attemptRequest, timeoutMs);
+      if (isLastAttempt || !retryStatuses.includes(response.status)) {
+        return response;
+      }
+
+      // Discard the body of the retried response so its connection is released
+      await response.body?.cancel();
+      logDebug('gateway', `Retrying after upstream status ${response.status}`, { requestId, attempt });
+    } catch (error) {
+      if (isLastAttempt) {
+        throw error;
+      }
+
+      logDebug('gateway', 'Retrying after upstream error', {
+        requestId,
+        attempt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, backoffMs * 2 ** (attempt - 1)));
+  }
+}
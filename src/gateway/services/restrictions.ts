@@ -0,0 +1,75 @@
+import type { ApiKeyConfig, RestrictionReason } from '@/shared/types';
+import { isIpInCidr, matchesOriginPattern } from '@/shared/utils/network';
+
+// Error message of each restriction reason
+const RESTRICTION_MESSAGES: Record<RestrictionReason, string> = {
+  ip_not_allowed: 'API key not allowed from this IP address',
+  referrer_not_allowed: 'API key not allowed from this origin',
+  country_not_allowed: 'API key not allowed from this country',
+  country_denied: 'API key not allowed from this country',
+};
+
+/**
+ * Origin of the page making a browser request, from the Origin header or else the Referer header
+ */
+function getRequestOrigin(request: Request): string | null {
+  const origin = request.headers.get('Origin');
+  if (origin && origin !== 'null') {
+    return origin;
+  }
+
+  const referer = request.headers.get('Referer');
+  if (!referer) {
+    return null;
+  }
+
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check the IP, origin and country restrictions of an API key.
+ * Returns the reason of the first violated restriction, or null if the request is allowed.
+ * A restriction that cannot be checked (e.g. no client IP) counts as violated.
+ */
+export function checkRestrictions(apiKeyConfig: ApiKeyConfig, request: Request): RestrictionReason | null {
+  const { restrictions } = apiKeyConfig;
+  if (!restrictions) {
+    return null;
+  }
+
+  if (restrictions.allowedIps?.length) {
+    const ip = request.headers.get('CF-Connecting-IP');
+    if (!ip || !restrictions.allowedIps.some((cidr) => isIpInCidr(ip, cidr))) {
+      return 'ip_not_allowed';
+    }
+  }
+
+  if (restrictions.allowedReferrers?.length) {
+    const origin = getRequestOrigin(request);
+    if (!origin || !restrictions.allowedReferrers.some((pattern) => matchesOriginPattern(origin, pattern))) {
+      return 'referrer_not_allowed';
+    }
+  }
+
+  const country = typeof request.cf?.country === 'string' ? request.cf.country.toUpperCase() : null;
+  if (restrictions.allowedCountries?.length && (!country || !restrictions.allowedCountries.includes(country))) {
+    return 'country_not_allowed';
+  }
+
+  if (country && restrictions.deniedCountries?.includes(country)) {
+    return 'country_denied';
+  }
+
+  return null;
+}
+
+/**
+ * Error message of a restriction reason
+ */
+export function restrictionErrorMessage(reason: RestrictionReason): string {
+  return RESTRICTION_MESSAGES[reason];
+}
@@ -1,25 +1,88 @@
 import { targets } from '@/config/targets';
 import type { TargetConfig } from '@/shared/types';
+import { KV_TARGET } from '@/shared/utils/kv';
 import { logDebug } from '@/shared/utils/logging';
 
+import { rewritePath } from './transform';
+
+// How long a target lookup is cached in this isolate
+const TARGET_CACHE_TTL_MS = 60000;
+
+// In-isolate cache of target lookups (including misses) to keep KV reads off the hot path
+const targetCache = new Map<string, { config: TargetConfig | null; expiresAt: number }>();
+
 /**
- * Get the appropriate target configuration by targetId
+ * Get the appropriate target configuration by targetId.
+ * Targets stored in KV take precedence over the static seed targets.
  */
-export function getTargetConfig(targetId: string): TargetConfig | null {
-  if (!targets?.length) {
-    logDebug('target', 'No target configurations found');
-    return null;
+export async function getTargetConfig(targetId: string, env: Env): Promise<TargetConfig | null> {
+  const cached = targetCache.get(targetId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.config;
   }
 
-  const target = targets.find((target) => target.id === targetId);
+  const target = (await KV_TARGET.get<TargetConfig>(targetId, env)) ?? targets.find((target) => target.id === targetId) ?? null;
   if (!target) {
     logDebug('target', `Target ${targetId} not found`);
-    return null;
   }
 
+  targetCache.set(targetId, { config: target, expiresAt: Date.now() + TARGET_CACHE_TTL_MS });
   return target;
 }
 
+// In-isolate cache of the full target list, used by keys allowed on every target
+let allTargetsCache: { configs: TargetConfig[]; expiresAt: number } | null = null;
+
+/**
+ * Get every known target configuration: KV targets plus static seed targets not overridden in KV
+ */
+async function getAllTargetConfigs(env: Env): Promise<TargetConfig[]> {
+  if (allTargetsCache && allTargetsCache.expiresAt > Date.now()) {
+    return allTargetsCache.configs;
+  }
+
+  const storedIds = await KV_TARGET.list(env);
+  const targetIds = [...storedIds, ...targets.map((target) => target.id).filter((targetId) => !storedIds.includes(targetId))];
+  const configs = (await Promise.all(targetIds.map((targetId) => getTargetConfig(targetId, env)))).filter(
+    (config): config is TargetConfig => config !== null
+  );
+
+  allTargetsCache = { configs, expiresAt: Date.now() + TARGET_CACHE_TTL_MS };
+  return configs;
+}
+
+/**
+ * Get the target configurations for a list of allowed target IDs (or '*' for all targets)
+ */
+export async function getAllowedTargetConfigs(allowedTargetIds: string[] | '*', env: Env): Promise<TargetConfig[]> {
+  if (allowedTargetIds === '*') {
+    return getAllTargetConfigs(env);
+  }
+
+  const configs = await Promise.all(allowedTargetIds.map((targetId) => getTargetConfig(targetId, env)));
+  return configs.filter((config): config is TargetConfig => config !== null);
+}
+
+/**
+ * Select the target for a request path among candidate targets.
+ * Precedence: exact pattern > longest wildcard prefix > regex (in candidate order).
+ */
+export function selectTargetConfig(path: string, candidates: TargetConfig[]): TargetConfig | null {
+  const matches = candidates.filter((config) => matchTargetPattern(path, config));
+
+  const exactMatch = matches.find((config) => !config.isRegex && !config.pattern.endsWith('*'));
+  if (exactMatch) {
+    return exactMatch;
+  }
+
+  const wildcardMatches = matches.filter((config) => !config.isRegex && config.pattern.endsWith('*'));
+  if (wildcardMatches.length) {
+    return wildcardMatches.reduce((longest, config) => (config.pattern.length > longest.pattern.length ? config : longest));
+  }
+
+  return matches.find((config) => config.isRegex) ?? null;
+}
+
 /**
  * Match a request path against a target pattern
  */
@@ -64,7 +127,12 @@ export function extractRelativePath(path: string, config: TargetConfig): string
   // Normalize path by removing trailing slash (except for root path)
   const normalizedPath = path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
 
-  // Handle regex patterns
+  // Handle declarative path rewrites
+  if (config.transform?.pathRewrite) {
+    return rewritePath(normalizedPath, config.transform.pathRewrite);
+  }
+
+  // Handle regex patterns, stripping the ^/base/.* prefix (targets without a rewrite keep this legacy behavior)
   if (config.isRegex && config.pattern.startsWith('^/') && config.pattern.includes('/.*')) {
     const basePath = config.pattern.substring(1, config.pattern.indexOf('/.*')).replace(/\\/g, '');
 
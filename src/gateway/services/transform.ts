@@ -0,0 +1,45 @@
+import type { HeaderRules, TransformConfig } from '@/shared/types';
+
+/**
+ * Apply header add/set/remove rules, in that order
+ */
+export function applyHeaderRules(headers: Headers, rules: HeaderRules | undefined): void {
+  if (!rules) {
+    return;
+  }
+
+  for (const [name, value] of Object.entries(rules.add ?? {})) {
+    headers.append(name, value);
+  }
+
+  for (const [name, value] of Object.entries(rules.set ?? {})) {
+    headers.set(name, value);
+  }
+
+  for (const name of rules.remove ?? []) {
+    headers.delete(name);
+  }
+}
+
+/**
+ * Rewrite a path with a regex and a replacement template using capture groups ($1, $<name>)
+ * Paths not matching the pattern are returned unchanged
+ */
+export function rewritePath(path: string, rewrite: NonNullable<TransformConfig['pathRewrite']>): string {
+  const pattern = new RegExp(rewrite.pattern);
+  if (!pattern.test(path)) {
+    return path;
+  }
+
+  const rewrittenPath = path.replace(pattern, rewrite.replacement);
+  return rewrittenPath.startsWith('/') ? rewrittenPath : '/' + rewrittenPath;
+}
+
+/**
+ * Set the injected query parameters on the upstream URL
+ */
+export function applyQueryInjection(url: URL, query: Record<string, string> | undefined): void {
+  for (const [name, value] of Object.entries(query ?? {})) {
+    url.searchParams.set(name, value);
+  }
+}
@@ -0,0 +1,112 @@
+import type { TargetConfig, UpstreamAuthConfig } from '@/shared/types';
+import { hmacSha256Hex, sha256Hex } from '@/shared/utils/crypto';
+import { isTargetSecretName, TARGET_SECRET_PREFIX } from '@/shared/utils/secrets';
+
+import { applyHeaderRules } from './transform';
+
+// Headers that might trigger Cloudflare security on the upstream
+const CLOUDFLARE_HEADERS = ['cf-connecting-ip', 'cf-ipcountry', 'cf-ray', 'cf-visitor', 'x-forwarded-for', 'x-forwarded-proto'];
+
+// Gateway credentials presented by the client, never forwarded
+const CLIENT_CREDENTIAL_HEADERS = ['x-api-key', 'authorization'];
+
+// Prefix of the identity headers set by the gateway; client-supplied values are dropped
+const IDENTITY_HEADER_PREFIX = 'x-apiki-';
+
+export interface UpstreamIdentity {
+  clientId: string;
+  keyId: string;
+  requestId: string;
+}
+
+/**
+ * Resolve a Worker secret referenced by a target config, refusing names without the target secret prefix
+ */
+function resolveSecret(secretName: string, env: Env): string {
+  if (!isTargetSecretName(secretName)) {
+    throw new Error(`Secret ${secretName} cannot be referenced by targets, names must start with ${TARGET_SECRET_PREFIX}`);
+  }
+
+  const value = (env as unknown as Record<string, unknown>)[secretName];
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`Upstream secret ${secretName} is not configured`);
+  }
+  return value;
+}
+
+/**
+ * Set the gateway credentials for the upstream on the request headers
+ */
+async function applyUpstreamAuth(
+  headers: Headers,
+  auth: UpstreamAuthConfig,
+  method: string,
+  targetUrl: URL,
+  body: ArrayBuffer | null,
+  env: Env
+): Promise<void> {
+  const secret = resolveSecret(auth.secret, env);
+
+  switch (auth.type) {
+    case 'header':
+      headers.set(auth.header, secret);
+      break;
+    case 'bearer':
+      headers.set('Authorization', `Bearer ${secret}`);
+      break;
+    case 'basic':
+      headers.set('Authorization', `Basic ${btoa(`${auth.username}:${secret}`)}`);
+      break;
+    case 'hmac': {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const bodyHash = await sha256Hex(body ?? '');
+      const signature = await hmacSha256Hex(secret, `${timestamp}.${method}.${targetUrl.pathname}${targetUrl.search}.${bodyHash}`);
+      headers.set('X-Apiki-Timestamp', timestamp);
+      headers.set('X-Apiki-Signature', signature);
+      break;
+    }
+  }
+}
+
+/**
+ * Build the request sent to the upstream: strip client credentials and Cloudflare headers,
+ * forward the caller identity, apply the target header rules and add the upstream credentials
+ */
+export async function buildUpstreamRequest(
+  request: Request,
+  targetUrl: URL,
+  targetConfig: TargetConfig,
+  identity: UpstreamIdentity,
+  env: Env
+): Promise<Request> {
+  const headers = new Headers(request.headers);
+
+  for (const name of [...headers.keys()]) {
+    if (CLOUDFLARE_HEADERS.includes(name) || CLIENT_CREDENTIAL_HEADERS.includes(name) || name.startsWith(IDENTITY_HEADER_PREFIX)) {
+      headers.delete(name);
+    }
+  }
+
+  // Let the upstream know who called
+  headers.set('X-Apiki-Client-Id', identity.clientId);
+  headers.set('X-Apiki-Key-Id', identity.keyId);
+  headers.set('X-Request-ID', identity.requestId);
+
+  // Apply the target request header rules; upstream credentials are set last so they cannot be overridden
+  applyHeaderRules(headers, targetConfig.transform?.request?.headers);
+
+  // Signing needs the whole body, other modes keep streaming it
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+  const body = targetConfig.upstreamAuth?.type === 'hmac' && hasBody ? await request.arrayBuffer() : null;
+
+  if (targetConfig.upstreamAuth) {
+    await applyUpstreamAuth(headers, targetConfig.upstreamAuth, request.method, targetUrl, body, env);
+  }
+
+  return new Request(targetUrl, {
+    method: request.method,
+    headers,
+    body: body ?? request.body,
+    redirect: 'follow',
+  });
+}
@@ -0,0 +1,15 @@
+import { getUsageTracker } from '@/shared/durable/usageTracker';
+import type { UsageEvent } from '@/shared/types';
+
+/**
+ * Record a usage event off the hot path, after the response has been returned
+ */
+export function recordUsage(event: UsageEvent, env: Env, ctx: ExecutionContext): void {
+  ctx.waitUntil(
+    getUsageTracker(event.clientId, env)
+      .record(event)
+      .catch((error: unknown) => {
+        console.error(`Failed to record usage (${event.requestId}):`, error instanceof Error ? error.message : String(error));
+      })
+  );
+}
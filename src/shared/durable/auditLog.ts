@@ -0,0 +1,204 @@
+// Audit log - Durable Object holding the hash-chained log of admin operations
+
+import { DurableObject } from 'cloudflare:workers';
+
+import type { AuditEntry, AuditQuery, AuditVerification } from '@/shared/types';
+import { sha256Hex } from '@/shared/utils/crypto';
+
+// Previous hash of the first entry in the chain
+const GENESIS_HASH = '0'.repeat(64);
+
+// Name of the single audit log instance
+const AUDIT_LOG_NAME = 'global';
+
+type AuditRow = {
+  seq: number;
+  actor: string;
+  action: string;
+  resource_type: string;
+  resource_id: string;
+  before_json: string;
+  after_json: string;
+  request_id: string;
+  ip: string | null;
+  created_at: number;
+  prev_hash: string;
+  hash: string;
+};
+
+/**
+ * Hash of an entry chained to the hash of the previous entry.
+ * Snapshots are hashed as their stored JSON so verification does not depend on key order.
+ */
+async function hashEntry(row: Omit<AuditRow, 'hash'>): Promise<string> {
+  return sha256Hex(
+    row.prev_hash +
+      JSON.stringify([
+        row.seq,
+        row.actor,
+        row.action,
+        row.resource_type,
+        row.resource_id,
+        row.before_json,
+        row.after_json,
+        row.request_id,
+        row.ip,
+        row.created_at,
+      ])
+  );
+}
+
+function toAuditEntry(row: AuditRow): AuditEntry {
+  return {
+    seq: row.seq,
+    actor: row.actor,
+    action: row.action,
+    resourceType: row.resource_type,
+    resourceId: row.resource_id,
+    before: JSON.parse(row.before_json),
+    after: JSON.parse(row.after_json),
+    requestId: row.request_id,
+    ip: row.ip,
+    createdAt: row.created_at,
+    prevHash: row.prev_hash,
+    hash: row.hash,
+  };
+}
+
+/**
+ * Durable Object holding the audit log in SQLite storage.
+ * Each entry stores the hash of the previous one, so editing or deleting an entry
+ * breaks the chain from that point on.
+ */
+export class AuditLog extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS audit_entries (
+        seq INTEGER PRIMARY KEY,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        resource_type TEXT NOT NULL,
+        resource_id TEXT NOT NULL,
+        before_json TEXT NOT NULL,
+        after_json TEXT NOT NULL,
+        request_id TEXT NOT NULL,
+        ip TEXT,
+        created_at INTEGER NOT NULL,
+        prev_hash TEXT NOT NULL,
+        hash TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS audit_entries_actor ON audit_entries (actor, seq);
+      CREATE INDEX IF NOT EXISTS audit_entries_resource ON audit_entries (resource_type, resource_id, seq);
+      CREATE INDEX IF NOT EXISTS audit_entries_created_at ON audit_entries (created_at);
+    `);
+  }
+
+  /**
+   * Append an entry at the end of the chain
+   */
+  async append(entry: Omit<AuditEntry, 'seq' | 'createdAt' | 'prevHash' | 'hash'>): Promise<AuditEntry> {
+    // Hashing is async, so block other appends until this entry is linked and written
+    return this.ctx.blockConcurrencyWhile(async () => {
+      const last = this.ctx.storage.sql
+        .exec<Pick<AuditRow, 'seq' | 'hash'>>('SELECT seq, hash FROM audit_entries ORDER BY seq DESC LIMIT 1')
+        .toArray()[0];
+
+      const row: Omit<AuditRow, 'hash'> = {
+        seq: (last?.seq ?? 0) + 1,
+        actor: entry.actor,
+        action: entry.action,
+        resource_type: entry.resourceType,
+        resource_id: entry.resourceId,
+        before_json: JSON.stringify(entry.before ?? null),
+        after_json: JSON.stringify(entry.after ?? null),
+        request_id: entry.requestId,
+        ip: entry.ip,
+        created_at: Date.now(),
+        prev_hash: last?.hash ?? GENESIS_HASH,
+      };
+      const hash = await hashEntry(row);
+
+      this.ctx.storage.sql.exec(
+        `INSERT INTO audit_entries (seq, actor, action, resource_type, resource_id, before_json, after_json, request_id, ip, created_at, prev_hash, hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        row.seq,
+        row.actor,
+        row.action,
+        row.resource_type,
+        row.resource_id,
+        row.before_json,
+        row.after_json,
+        row.request_id,
+        row.ip,
+        row.created_at,
+        row.prev_hash,
+        hash
+      );
+
+      return toAuditEntry({ ...row, hash });
+    });
+  }
+
+  /**
+   * List entries, newest first, optionally filtered by actor, resource and time range
+   */
+  async query(query: AuditQuery): Promise<{ entries: AuditEntry[]; cursor: string | null }> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    const filters: [string, string | number | undefined][] = [
+      ['actor = ?', query.actor],
+      ['resource_type = ?', query.resourceType],
+      ['resource_id = ?', query.resourceId],
+      ['created_at >= ?', query.from],
+      ['created_at <= ?', query.to],
+      // The cursor is the sequence number of the last entry returned
+      ['seq < ?', query.cursor !== undefined ? parseInt(query.cursor) || 0 : undefined],
+    ];
+    for (const [condition, value] of filters) {
+      if (value !== undefined) {
+        conditions.push(condition);
+        params.push(value);
+      }
+    }
+
+    const whereClause = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.ctx.storage.sql
+      .exec<AuditRow>(`SELECT * FROM audit_entries ${whereClause} ORDER BY seq DESC LIMIT ?`, ...params, query.limit)
+      .toArray();
+
+    return {
+      entries: rows.map(toAuditEntry),
+      cursor: rows.length === query.limit ? rows[rows.length - 1].seq.toString() : null,
+    };
+  }
+
+  /**
+   * Walk the whole chain and check every link and hash
+   */
+  async verify(): Promise<AuditVerification> {
+    let prevHash = GENESIS_HASH;
+    let expectedSeq = 1;
+
+    for (const row of this.ctx.storage.sql.exec<AuditRow>('SELECT * FROM audit_entries ORDER BY seq').toArray()) {
+      const { hash, ...rest } = row;
+      if (row.seq !== expectedSeq || row.prev_hash !== prevHash || (await hashEntry(rest)) !== hash) {
+        return { valid: false, checked: expectedSeq - 1, brokenAt: expectedSeq };
+      }
+
+      prevHash = hash;
+      expectedSeq++;
+    }
+
+    return { valid: true, checked: expectedSeq - 1 };
+  }
+}
+
+/**
+ * Get the audit log stub
+ */
+export function getAuditLog(env: Env): DurableObjectStub<AuditLog> {
+  return env.AUDIT_LOG.get(env.AUDIT_LOG.idFromName(AUDIT_LOG_NAME));
+}
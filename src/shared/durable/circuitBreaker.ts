@@ -0,0 +1,101 @@
+// Circuit breaker - Durable Object tracking the health of a single target's upstream
+
+import { DurableObject } from 'cloudflare:workers';
+
+import type { CircuitBreakerConfig, CircuitBreakerResult } from '@/shared/types';
+
+/**
+ * Durable Object holding the circuit state of one target, shared by every gateway isolate.
+ * State is kept in memory only: losing it on eviction just closes the circuit.
+ *
+ * closed: requests flow, failures are counted per window; crossing the error rate opens the circuit.
+ * open: requests fail fast until the cooldown ends.
+ * half-open: a single probe request is let through; its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker extends DurableObject<Env> {
+  private state: 'closed' | 'open' | 'half-open' = 'closed';
+  private windowStartedAt = 0;
+  private requests = 0;
+  private failures = 0;
+  private openedAt = 0;
+  private probeStartedAt: number | null = null;
+
+  /**
+   * Check if a request may be sent to the upstream
+   */
+  async check(config: CircuitBreakerConfig): Promise<CircuitBreakerResult> {
+    const now = Date.now();
+
+    if (this.state === 'open') {
+      const retryAt = this.openedAt + config.cooldownMs;
+      if (now < retryAt) {
+        return { allowed: false, state: this.state, retryAfter: Math.ceil((retryAt - now) / 1000) };
+      }
+      this.state = 'half-open';
+      this.probeStartedAt = null;
+    }
+
+    if (this.state === 'half-open') {
+      // Only one probe at a time; a probe that never reports is replaced after a cooldown
+      if (this.probeStartedAt !== null && now < this.probeStartedAt + config.cooldownMs) {
+        return { allowed: false, state: this.state, retryAfter: Math.ceil((this.probeStartedAt + config.cooldownMs - now) / 1000) };
+      }
+      this.probeStartedAt = now;
+    }
+
+    return { allowed: true, state: this.state, retryAfter: 0 };
+  }
+
+  /**
+   * Report the outcome of an upstream request
+   */
+  async report(config: CircuitBreakerConfig, success: boolean): Promise<void> {
+    const now = Date.now();
+
+    if (this.state === 'half-open') {
+      if (success) {
+        this.close(now);
+      } else {
+        this.open(now);
+      }
+      return;
+    }
+
+    // Start a new counting window if the current one is over
+    if (now - this.windowStartedAt >= config.windowMs) {
+      this.windowStartedAt = now;
+      this.requests = 0;
+      this.failures = 0;
+    }
+
+    this.requests++;
+    if (!success) {
+      this.failures++;
+    }
+
+    if (this.state === 'closed' && this.requests >= config.minRequests && this.failures / this.requests >= config.errorRateThreshold) {
+      this.open(now);
+    }
+  }
+
+  private open(now: number): void {
+    this.state = 'open';
+    this.openedAt = now;
+    this.probeStartedAt = null;
+  }
+
+  private close(now: number): void {
+    this.state = 'closed';
+    this.windowStartedAt = now;
+    this.requests = 0;
+    this.failures = 0;
+    this.probeStartedAt = null;
+  }
+}
+
+/**
+ * Get the circuit breaker stub for a target
+ */
+export function getCircuitBreaker(targetId: string, env: Env): DurableObjectStub<CircuitBreaker> {
+  return env.CIRCUIT_BREAKER.get(env.CIRCUIT_BREAKER.idFromName(targetId));
+}
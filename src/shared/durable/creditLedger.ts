@@ -0,0 +1,415 @@
+// Credit ledger - Durable Object owning the credit balance of a single client
+
+import { DurableObject } from 'cloudflare:workers';
+
+import type {
+  BalanceAlerts,
+  CreditGrantConfig,
+  CreditResult,
+  CreditTransaction,
+  CreditTransactionDetails,
+  CreditTransactionQuery,
+} from '@/shared/types';
+import { KV_CREDITS } from '@/shared/utils/kv';
+import { logDebug } from '@/shared/utils/logging';
+
+import { getWebhookDispatcher } from './webhookDispatcher';
+
+const BALANCE_KEY = 'balance';
+const ALERTS_KEY = 'alerts';
+const ALERTED_KEY = 'alerted';
+const CLIENT_ID_KEY = 'clientId';
+const GRANT_PREFIX = 'grant:';
+const HOLD_PREFIX = 'hold:';
+const TRANSACTION_PREFIX = 'tx:';
+
+// Holds not settled within this window are dropped and treated as committed (e.g. the gateway isolate died mid-request).
+// Upstreams have no timeout by default, so the window is long enough that a slow request still settles or releases its hold
+const HOLD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Grant markers older than this are pruned, longer than the longest grant interval so a retried grant run
+// never finds its marker gone. Transactions are never pruned, the ledger is append-only.
+const GRANT_MARKER_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+interface CreditHold {
+  amount: number;
+  expiresAt: number;
+  // Gateway request the credits are held for, recorded on the matching refund
+  requestId?: string;
+}
+
+/**
+ * Storage key of a transaction, sortable by creation time
+ */
+function transactionKey(createdAt: number, id = ''): string {
+  return `${TRANSACTION_PREFIX}${createdAt.toString().padStart(15, '0')}:${id}`;
+}
+
+/**
+ * Durable Object holding the credit balance of one client.
+ * Every read and write for a client goes through the same instance, so
+ * check-and-debit runs without interleaving concurrent requests.
+ */
+export class CreditLedger extends DurableObject<Env> {
+  private balance = 0;
+  private alerts: BalanceAlerts = { lowThresholds: [], depleted: false };
+  // Alerts already sent, re-armed once a top-up, grant or adjustment brings the balance back above them
+  private alerted: BalanceAlerts = { lowThresholds: [], depleted: false };
+  // Client owning the ledger, recorded on first use since the object does not know the name it was created from
+  private clientId: string | null = null;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    // Load the balance before any request is delivered to this instance
+    ctx.blockConcurrencyWhile(async () => {
+      this.clientId = (await ctx.storage.get<string>(CLIENT_ID_KEY)) ?? null;
+      this.alerts = (await ctx.storage.get<BalanceAlerts>(ALERTS_KEY)) ?? this.alerts;
+      this.alerted = (await ctx.storage.get<BalanceAlerts>(ALERTED_KEY)) ?? this.alerted;
+      this.balance = (await ctx.storage.get<number>(BALANCE_KEY)) ?? 0;
+    });
+  }
+
+  /**
+   * Get the current balance
+   */
+  async getBalance(clientId: string): Promise<number> {
+    await this.ensureClient(clientId);
+    return this.balance;
+  }
+
+  /**
+   * Overwrite the balance with an absolute value, recorded as a manual adjustment
+   */
+  async setBalance(clientId: string, credits: number, details: CreditTransactionDetails = {}): Promise<number> {
+    await this.ensureClient(clientId);
+    await this.applyChange(credits - this.balance, 'adjustment', details);
+    return this.balance;
+  }
+
+  /**
+   * Add credits to the balance, recorded as a top-up
+   */
+  async add(clientId: string, amount: number, details: CreditTransactionDetails = {}): Promise<CreditResult> {
+    await this.ensureClient(clientId);
+    await this.applyChange(amount, 'topup', details);
+
+    return {
+      success: true,
+      remaining: this.balance,
+      used: 0,
+    };
+  }
+
+  /**
+   * Deduct credits from the balance, recorded as a manual adjustment. Fails if the balance is too low.
+   */
+  async deduct(clientId: string, amount: number, details: CreditTransactionDetails = {}): Promise<CreditResult> {
+    await this.ensureClient(clientId);
+    if (amount > this.balance) {
+      return {
+        success: false,
+        remaining: this.balance,
+        used: 0,
+      };
+    }
+
+    await this.applyChange(-amount, 'adjustment', details);
+
+    return {
+      success: true,
+      remaining: this.balance,
+      used: amount,
+    };
+  }
+
+  /**
+   * Apply a recurring grant once per grant ID, recorded as a grant.
+   * Returns false if the grant was already applied, so retried runs never grant twice.
+   */
+  async grant(clientId: string, grantId: string, grant: CreditGrantConfig): Promise<boolean> {
+    await this.ensureClient(clientId);
+    const markerKey = GRANT_PREFIX + grantId;
+    if (await this.ctx.storage.get(markerKey)) {
+      return false;
+    }
+
+    // The marker is written with the balance so a grant is never applied without it
+    const amount = grant.mode === 'reset' ? grant.amount - this.balance : grant.amount;
+    await this.applyChange(
+      amount,
+      'grant',
+      { reason: `Recurring ${grant.interval} grant (${grant.mode})`, actor: 'scheduler' },
+      { [markerKey]: Date.now() }
+    );
+
+    // Make sure the marker gets pruned once its grant period is long over
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + PRUNE_INTERVAL_MS);
+    }
+
+    return true;
+  }
+
+  /**
+   * Atomically check the balance and hold the given amount until it is committed or released
+   */
+  async reserve(clientId: string, reservationId: string, amount: number, details: CreditTransactionDetails = {}): Promise<CreditResult> {
+    await this.ensureClient(clientId);
+    if (amount > this.balance) {
+      return {
+        success: false,
+        remaining: this.balance,
+        used: 0,
+      };
+    }
+
+    // The debit is recorded when the credits are held; a release records the matching refund
+    const hold: CreditHold = { amount, expiresAt: Date.now() + HOLD_TTL_MS, requestId: details.requestId };
+    await this.applyChange(-amount, 'debit', details, { [HOLD_PREFIX + reservationId]: hold });
+
+    // Make sure stale holds get swept even if they are never settled
+    const alarm = await this.ctx.storage.getAlarm();
+    if (alarm === null || alarm > hold.expiresAt) {
+      await this.ctx.storage.setAlarm(hold.expiresAt);
+    }
+
+    return {
+      success: true,
+      remaining: this.balance,
+      used: amount,
+      reservationId,
+    };
+  }
+
+  /**
+   * Commit a held amount, making the debit final
+   */
+  async commit(reservationId: string): Promise<CreditResult> {
+    const hold = await this.ctx.storage.get<CreditHold>(HOLD_PREFIX + reservationId);
+    await this.ctx.storage.delete(HOLD_PREFIX + reservationId);
+
+    return {
+      success: true,
+      remaining: this.balance,
+      used: hold?.amount ?? 0,
+    };
+  }
+
+  /**
+   * Settle a held amount for a final (metered) amount, refunding the difference
+   */
+  async settle(reservationId: string, amount: number): Promise<CreditResult> {
+    const hold = await this.ctx.storage.get<CreditHold>(HOLD_PREFIX + reservationId);
+    if (!hold) {
+      return {
+        success: true,
+        remaining: this.balance,
+        used: 0,
+      };
+    }
+
+    const used = Math.min(amount, hold.amount);
+    if (used < hold.amount) {
+      await this.applyChange(hold.amount - used, 'refund', { requestId: hold.requestId, reason: 'Metered cost below reservation' });
+    }
+    await this.ctx.storage.delete(HOLD_PREFIX + reservationId);
+
+    return {
+      success: true,
+      remaining: this.balance,
+      used,
+    };
+  }
+
+  /**
+   * Release a held amount back to the balance
+   */
+  async release(reservationId: string): Promise<CreditResult> {
+    const hold = await this.ctx.storage.get<CreditHold>(HOLD_PREFIX + reservationId);
+    if (hold) {
+      await this.applyChange(hold.amount, 'refund', { requestId: hold.requestId });
+      await this.ctx.storage.delete(HOLD_PREFIX + reservationId);
+    }
+
+    return {
+      success: true,
+      remaining: this.balance,
+      used: 0,
+    };
+  }
+
+  /**
+   * Sweep expired holds, treating them as committed, and prune old grant markers
+   */
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const holds = await this.ctx.storage.list<CreditHold>({ prefix: HOLD_PREFIX });
+    let nextAlarm: number | null = null;
+
+    for (const [key, hold] of holds) {
+      if (hold.expiresAt <= now) {
+        await this.ctx.storage.delete(key);
+      } else if (nextAlarm === null || hold.expiresAt < nextAlarm) {
+        nextAlarm = hold.expiresAt;
+      }
+    }
+
+    // Prune grant markers old enough that their grant period can no longer be retried, storage deletes at most 128 keys at once
+    const grantMarkers = await this.ctx.storage.list<number>({ prefix: GRANT_PREFIX });
+    const expiredMarkers = [...grantMarkers].filter(([, grantedAt]) => grantedAt < now - GRANT_MARKER_RETENTION_MS).map(([key]) => key);
+    for (let start = 0; start < expiredMarkers.length; start += 128) {
+      await this.ctx.storage.delete(expiredMarkers.slice(start, start + 128));
+    }
+
+    // Keep waking up daily while there are grant markers left to prune
+    if (grantMarkers.size > expiredMarkers.length && (nextAlarm === null || now + PRUNE_INTERVAL_MS < nextAlarm)) {
+      nextAlarm = now + PRUNE_INTERVAL_MS;
+    }
+
+    if (nextAlarm !== null) {
+      await this.ctx.storage.setAlarm(nextAlarm);
+    }
+  }
+
+  /**
+   * Set the balance thresholds that notify the client's webhooks when crossed downwards
+   */
+  async setBalanceAlerts(clientId: string, alerts: BalanceAlerts): Promise<void> {
+    await this.ensureClient(clientId);
+    this.alerts = alerts;
+    await this.ctx.storage.put(ALERTS_KEY, alerts);
+  }
+
+  /**
+   * List transactions, newest first, optionally within a time range
+   */
+  async listTransactions(query: CreditTransactionQuery): Promise<{ transactions: CreditTransaction[]; cursor: string | null }> {
+    const entries = await this.ctx.storage.list<CreditTransaction>({
+      prefix: TRANSACTION_PREFIX,
+      start: query.from !== undefined ? transactionKey(query.from) : undefined,
+      // The cursor is the key of the last transaction returned, and the end bound is exclusive
+      end: query.cursor ?? (query.to !== undefined ? transactionKey(query.to + 1) : undefined),
+      reverse: true,
+      limit: query.limit,
+    });
+
+    const keys = [...entries.keys()];
+    return {
+      transactions: [...entries.values()],
+      cursor: keys.length === query.limit ? keys[keys.length - 1] : null,
+    };
+  }
+
+  /**
+   * Record the client owning the ledger on first use, seeding the balance from the legacy KV balance (if any)
+   * so existing clients keep their credits
+   */
+  private async ensureClient(clientId: string): Promise<void> {
+    if (this.clientId) {
+      return;
+    }
+
+    await this.ctx.blockConcurrencyWhile(async () => {
+      // Another request may have recorded the client while this one was waiting
+      if (this.clientId) {
+        return;
+      }
+
+      if ((await this.ctx.storage.get<number>(BALANCE_KEY)) === undefined) {
+        const legacyBalance = await KV_CREDITS.getString(clientId, this.env);
+        this.balance = legacyBalance ? parseInt(legacyBalance) : 0;
+
+        if (legacyBalance) {
+          logDebug('credits', `Seeded credit ledger for client ${clientId} from KV`, { balance: this.balance });
+        }
+      }
+
+      await this.ctx.storage.put<unknown>({ [CLIENT_ID_KEY]: clientId, [BALANCE_KEY]: this.balance });
+      this.clientId = clientId;
+    });
+  }
+
+  /**
+   * Apply a signed change to the balance and record it in the same storage write
+   */
+  private async applyChange(
+    amount: number,
+    type: CreditTransaction['type'],
+    details: CreditTransactionDetails,
+    extraEntries: Record<string, unknown> = {}
+  ): Promise<CreditTransaction> {
+    const transaction: CreditTransaction = {
+      id: crypto.randomUUID(),
+      type,
+      amount,
+      balance: this.balance + amount,
+      ...details,
+      createdAt: Date.now(),
+    };
+
+    // Alerts fire once per downward crossing, and are only re-armed by credits added on purpose,
+    // so refunds and reservations around a threshold do not repeat them
+    const previousBalance = this.balance;
+    const crossed: BalanceAlerts = {
+      lowThresholds:
+        amount < 0
+          ? this.alerts.lowThresholds.filter(
+              (threshold) =>
+                previousBalance >= threshold && transaction.balance < threshold && !this.alerted.lowThresholds.includes(threshold)
+            )
+          : [],
+      depleted: amount < 0 && this.alerts.depleted && previousBalance > 0 && transaction.balance <= 0 && !this.alerted.depleted,
+    };
+    const rearmed = amount > 0 && type !== 'refund';
+    const alerted: BalanceAlerts = {
+      lowThresholds: [...this.alerted.lowThresholds, ...crossed.lowThresholds].filter(
+        (threshold) => !rearmed || transaction.balance < threshold
+      ),
+      depleted: (this.alerted.depleted || crossed.depleted) && (!rearmed || transaction.balance <= 0),
+    };
+
+    await this.ctx.storage.put<unknown>({
+      [BALANCE_KEY]: transaction.balance,
+      [transactionKey(transaction.createdAt, transaction.id)]: transaction,
+      [ALERTED_KEY]: alerted,
+      ...extraEntries,
+    });
+    this.balance = transaction.balance;
+    this.alerted = alerted;
+
+    this.notifyBalanceAlerts(crossed, this.balance);
+
+    return transaction;
+  }
+
+  /**
+   * Notify the client's webhooks of the alerts crossed by a change of the balance, without waiting for delivery
+   */
+  private notifyBalanceAlerts(crossed: BalanceAlerts, balance: number): void {
+    const clientId = this.clientId;
+    if (!clientId) {
+      return;
+    }
+
+    const dispatcher = getWebhookDispatcher(clientId, this.env);
+    const notifications: Promise<unknown>[] = crossed.lowThresholds.map((threshold) =>
+      dispatcher.dispatch(clientId, 'credits.low', { threshold, balance })
+    );
+    if (crossed.depleted) {
+      notifications.push(dispatcher.dispatch(clientId, 'credits.depleted', { balance }));
+    }
+
+    for (const notification of notifications) {
+      this.ctx.waitUntil(notification.catch((error) => console.error(`Error notifying balance alert for client ${clientId}:`, error)));
+    }
+  }
+}
+
+/**
+ * Get the credit ledger stub for a client
+ */
+export function getCreditLedger(clientId: string, env: Env): DurableObjectStub<CreditLedger> {
+  return env.CREDIT_LEDGER.get(env.CREDIT_LEDGER.idFromName(clientId));
+}
@@ -0,0 +1,189 @@
+// Quota tracker - Durable Object counting the daily and monthly usage of a single API key
+
+import { DurableObject } from 'cloudflare:workers';
+
+import type { ApiKeyConfig, QuotaConfig, QuotaLimits, QuotaPeriod, QuotaResult, QuotaUsage } from '@/shared/types';
+
+const USAGE_PREFIX = 'usage:';
+
+// Past periods kept per granularity, so the previous day and month stay visible
+const KEPT_PERIODS = 2;
+
+const QUOTA_PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+const QUOTA_UNITS: (keyof QuotaLimits)[] = ['requests', 'credits'];
+
+/**
+ * Offset of a timezone from UTC at a given time, in milliseconds
+ */
+function getTimeZoneOffset(timeZone: string, time: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(time));
+  const part = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? '0');
+
+  const localAsUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return localAsUtc - (time - (time % 1000));
+}
+
+/**
+ * Time at which a local calendar date starts in a timezone (month and day may overflow, as with Date.UTC)
+ */
+function getLocalMidnight(timeZone: string, year: number, month: number, day: number): number {
+  const midnightAsUtc = Date.UTC(year, month, day);
+  // Apply the offset twice so the offset in effect at the resulting time is used across DST changes
+  const firstGuess = midnightAsUtc - getTimeZoneOffset(timeZone, midnightAsUtc);
+  return midnightAsUtc - getTimeZoneOffset(timeZone, firstGuess);
+}
+
+/**
+ * Current day and month of a timezone, with the time each one ends
+ */
+function getQuotaPeriods(timeZone: string, now: number): Record<QuotaPeriod, { periodId: string; resetAt: number }> {
+  const local = new Date(now + getTimeZoneOffset(timeZone, now));
+  const [year, month, day] = [local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()];
+  const date = local.toISOString().slice(0, 10);
+
+  return {
+    daily: { periodId: date, resetAt: getLocalMidnight(timeZone, year, month, day + 1) },
+    monthly: { periodId: date.slice(0, 7), resetAt: getLocalMidnight(timeZone, year, month + 1, 1) },
+  };
+}
+
+/**
+ * Durable Object counting the requests and credits of one API key per day and per month.
+ * Every request of a key goes through the same instance, so the check and the increment are atomic.
+ */
+export class QuotaTracker extends DurableObject<Env> {
+  /**
+   * Count a request and its credits if it fits in every quota, otherwise count nothing
+   */
+  async consume(quota: QuotaConfig, credits: number): Promise<QuotaResult> {
+    const now = Date.now();
+    const periods = getQuotaPeriods(quota.timezone ?? 'UTC', now);
+    const usage = await this.getUsage(quota);
+
+    let result: QuotaResult | null = null;
+    for (const period of QUOTA_PERIODS) {
+      for (const unit of QUOTA_UNITS) {
+        const limit = quota[period]?.[unit];
+        if (limit === undefined) {
+          continue;
+        }
+
+        const requested = unit === 'requests' ? 1 : credits;
+        const used = usage[period][unit];
+        const allowed = used + requested <= limit;
+        const candidate: QuotaResult = {
+          allowed,
+          periodIds: { daily: periods.daily.periodId, monthly: periods.monthly.periodId },
+          period,
+          unit,
+          limit,
+          remaining: Math.max(0, limit - used - (allowed ? requested : 0)),
+          reset: Math.ceil((periods[period].resetAt - now) / 1000),
+        };
+
+        // A rejection wins, otherwise report the quota closest to running out
+        if (
+          !result ||
+          (result.allowed && !candidate.allowed) ||
+          (result.allowed === candidate.allowed && candidate.remaining < result.remaining)
+        ) {
+          result = candidate;
+        }
+      }
+    }
+
+    if (!result) {
+      throw new Error('Quota has no limits');
+    }
+
+    if (result.allowed) {
+      await this.add(result.periodIds, 1, credits);
+    }
+
+    return result;
+  }
+
+  /**
+   * Give back requests or credits counted by consume (e.g. credits of a reservation that was not fully used)
+   */
+  async refund(periodIds: Record<QuotaPeriod, string>, requests: number, credits: number): Promise<void> {
+    await this.add(periodIds, -requests, -credits);
+  }
+
+  /**
+   * Usage of the current day and month
+   */
+  async getUsage(quota: QuotaConfig): Promise<Record<QuotaPeriod, QuotaUsage>> {
+    const periods = getQuotaPeriods(quota.timezone ?? 'UTC', Date.now());
+    const stored = await this.ctx.storage.get<Pick<QuotaUsage, 'requests' | 'credits'>>(
+      QUOTA_PERIODS.map((period) => `${USAGE_PREFIX}${period}:${periods[period].periodId}`)
+    );
+
+    const usageOf = (period: QuotaPeriod): QuotaUsage => ({
+      periodId: periods[period].periodId,
+      requests: 0,
+      credits: 0,
+      ...stored.get(`${USAGE_PREFIX}${period}:${periods[period].periodId}`),
+      resetAt: periods[period].resetAt,
+    });
+
+    return { daily: usageOf('daily'), monthly: usageOf('monthly') };
+  }
+
+  /**
+   * Prune the usage of old periods
+   */
+  async alarm(): Promise<void> {
+    for (const period of QUOTA_PERIODS) {
+      const entries = await this.ctx.storage.list({ prefix: `${USAGE_PREFIX}${period}:`, reverse: true });
+      await this.ctx.storage.delete([...entries.keys()].slice(KEPT_PERIODS));
+    }
+  }
+
+  /**
+   * Apply a change to the usage of the given periods
+   */
+  private async add(periodIds: Record<QuotaPeriod, string>, requests: number, credits: number): Promise<void> {
+    const keys = QUOTA_PERIODS.map((period) => `${USAGE_PREFIX}${period}:${periodIds[period]}`);
+    const stored = await this.ctx.storage.get<Pick<QuotaUsage, 'requests' | 'credits'>>(keys);
+
+    const updates: Record<string, Pick<QuotaUsage, 'requests' | 'credits'>> = {};
+    for (const key of keys) {
+      const current = stored.get(key) ?? { requests: 0, credits: 0 };
+      updates[key] = {
+        requests: Math.max(0, current.requests + requests),
+        credits: Math.max(0, current.credits + credits),
+      };
+    }
+    await this.ctx.storage.put(updates);
+
+    // Prune old periods once a day
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + 24 * 60 * 60 * 1000);
+    }
+  }
+}
+
+/**
+ * Get the ID of the quota tracker of an API key, shared by every key of its rotation lineage
+ * so that rotating a key neither resets its usage nor doubles its budget during the grace period
+ */
+export function getQuotaKeyId(apiKeyConfig: Pick<ApiKeyConfig, 'keyId' | 'quotaKeyId'>): string {
+  return apiKeyConfig.quotaKeyId ?? apiKeyConfig.keyId;
+}
+
+/**
+ * Get the quota tracker stub for a quota key ID (see getQuotaKeyId)
+ */
+export function getQuotaTracker(quotaKeyId: string, env: Env): DurableObjectStub<QuotaTracker> {
+  return env.QUOTA_TRACKER.get(env.QUOTA_TRACKER.idFromName(quotaKeyId));
+}
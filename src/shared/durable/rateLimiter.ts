@@ -0,0 +1,62 @@
+// Rate limiter - Durable Object owning a single token bucket
+
+import { DurableObject } from 'cloudflare:workers';
+
+import type { RateLimitConfig, RateLimitResult } from '@/shared/types';
+
+const WINDOW_MS: Record<RateLimitConfig['window'], number> = {
+  second: 1000,
+  minute: 60000,
+};
+
+/**
+ * Durable Object holding one token bucket (per API key or per client).
+ * Bucket state is kept in memory only: losing it on eviction just refills the bucket.
+ */
+export class RateLimiter extends DurableObject<Env> {
+  private tokens: number | null = null;
+  private updatedAt = 0;
+
+  /**
+   * Take one token from the bucket if available
+   */
+  async consume(config: RateLimitConfig): Promise<RateLimitResult> {
+    const now = Date.now();
+    const capacity = config.burst ?? config.limit;
+    const refillPerMs = config.limit / WINDOW_MS[config.window];
+
+    // Refill the bucket for the time elapsed since the last request
+    const elapsed = now - this.updatedAt;
+    this.tokens = this.tokens === null ? capacity : Math.min(capacity, this.tokens + elapsed * refillPerMs);
+    this.updatedAt = now;
+
+    const allowed = this.tokens >= 1;
+    if (allowed) {
+      this.tokens -= 1;
+    }
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(this.tokens),
+      reset: Math.ceil((capacity - this.tokens) / refillPerMs / 1000),
+      retryAfter: allowed ? 0 : Math.ceil((1 - this.tokens) / refillPerMs / 1000),
+    };
+  }
+
+  /**
+   * Give back a token taken for a request that another bucket rejected
+   */
+  async refund(config: RateLimitConfig): Promise<void> {
+    if (this.tokens !== null) {
+      this.tokens = Math.min(config.burst ?? config.limit, this.tokens + 1);
+    }
+  }
+}
+
+/**
+ * Get the rate limiter stub for a bucket
+ */
+export function getRateLimiter(bucket: string, env: Env): DurableObjectStub<RateLimiter> {
+  return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(bucket));
+}
@@ -0,0 +1,149 @@
+// Usage tracker - Durable Object recording the proxied requests of a single client
+
+import { DurableObject } from 'cloudflare:workers';
+
+import type { UsageEvent, UsageQuery, UsageRow } from '@/shared/types';
+
+// Raw usage events older than this are pruned
+const EVENT_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// SQL expression truncating created_at (milliseconds) to the start of a bucket
+const BUCKET_EXPRESSIONS: Record<UsageQuery['granularity'], string> = {
+  hour: '(created_at / 3600000) * 3600000',
+  day: '(created_at / 86400000) * 86400000',
+  month: "CAST(strftime('%s', created_at / 1000, 'unixepoch', 'start of month') AS INTEGER) * 1000",
+};
+
+const GROUP_COLUMNS: Record<UsageQuery['groupBy'][number], string> = {
+  target: 'target_id',
+  key: 'key_id',
+};
+
+/**
+ * Durable Object holding the usage events of one client in SQLite storage,
+ * so usage can be aggregated per bucket, target and key with plain SQL.
+ */
+export class UsageTracker extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    // Events are keyed by row ID: gateway request IDs are short and may collide, overwriting each other
+    ctx.storage.transactionSync(() => {
+      const columns = ctx.storage.sql
+        .exec<{ name: string }>('PRAGMA table_info(usage_events)')
+        .toArray()
+        .map((column) => column.name);
+      const legacy = columns.length > 0 && !columns.includes('id');
+      if (legacy) {
+        ctx.storage.sql.exec('DROP INDEX IF EXISTS usage_events_created_at; ALTER TABLE usage_events RENAME TO usage_events_legacy');
+      }
+
+      ctx.storage.sql.exec(`
+        CREATE TABLE IF NOT EXISTS usage_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          request_id TEXT NOT NULL,
+          key_id TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          method TEXT NOT NULL,
+          status INTEGER NOT NULL,
+          latency_ms INTEGER NOT NULL,
+          credits_used REAL NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS usage_events_created_at ON usage_events (created_at);
+      `);
+
+      // Copy the events of the request ID keyed table created by earlier versions
+      if (legacy) {
+        ctx.storage.sql.exec(`
+          INSERT INTO usage_events (request_id, key_id, target_id, method, status, latency_ms, credits_used, created_at)
+          SELECT request_id, key_id, target_id, method, status, latency_ms, credits_used, created_at FROM usage_events_legacy
+          ORDER BY created_at;
+          DROP TABLE usage_events_legacy;
+        `);
+      }
+    });
+  }
+
+  /**
+   * Record a usage event
+   */
+  async record(event: UsageEvent): Promise<void> {
+    this.ctx.storage.sql.exec(
+      `INSERT INTO usage_events (request_id, key_id, target_id, method, status, latency_ms, credits_used, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      event.requestId,
+      event.keyId,
+      event.targetId,
+      event.method,
+      event.status,
+      event.latencyMs,
+      event.creditsUsed,
+      event.timestamp
+    );
+
+    // Schedule pruning of old events
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + PRUNE_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Aggregate usage events per bucket and the requested dimensions
+   */
+  async query(query: UsageQuery): Promise<UsageRow[]> {
+    const groupColumns = query.groupBy.map((dimension) => GROUP_COLUMNS[dimension]);
+    const selectColumns = groupColumns.map((column) => `${column}, `).join('');
+    const groupByClause = ['bucket', ...groupColumns].join(', ');
+
+    const rows = this.ctx.storage.sql
+      .exec<{
+        bucket: number;
+        target_id?: string;
+        key_id?: string;
+        requests: number;
+        errors: number;
+        credits_used: number;
+        total_latency_ms: number;
+      }>(
+        `SELECT ${BUCKET_EXPRESSIONS[query.granularity]} AS bucket, ${selectColumns}
+           COUNT(*) AS requests,
+           SUM(CASE WHEN status >= 400 THEN 1 ELSE 0 END) AS errors,
+           SUM(credits_used) AS credits_used,
+           SUM(latency_ms) AS total_latency_ms
+         FROM usage_events
+         WHERE created_at >= ? AND created_at <= ?
+         GROUP BY ${groupByClause}
+         ORDER BY ${groupByClause}`,
+        query.from,
+        query.to
+      )
+      .toArray();
+
+    return rows.map((row) => ({
+      bucket: row.bucket,
+      ...(row.target_id !== undefined && { targetId: row.target_id }),
+      ...(row.key_id !== undefined && { keyId: row.key_id }),
+      requests: row.requests,
+      errors: row.errors,
+      creditsUsed: row.credits_used,
+      totalLatencyMs: row.total_latency_ms,
+    }));
+  }
+
+  /**
+   * Prune events past the retention window
+   */
+  async alarm(): Promise<void> {
+    this.ctx.storage.sql.exec('DELETE FROM usage_events WHERE created_at < ?', Date.now() - EVENT_RETENTION_MS);
+    await this.ctx.storage.setAlarm(Date.now() + PRUNE_INTERVAL_MS);
+  }
+}
+
+/**
+ * Get the usage tracker stub for a client
+ */
+export function getUsageTracker(clientId: string, env: Env): DurableObjectStub<UsageTracker> {
+  return env.USAGE_TRACKER.get(env.USAGE_TRACKER.idFromName(clientId));
+}
@@ -0,0 +1,279 @@
+// Webhook dispatcher - Durable Object delivering the webhook notifications of a single client
+
+import { DurableObject } from 'cloudflare:workers';
+
+import type { WebhookDelivery, WebhookEvent, WebhookSubscription } from '@/shared/types';
+import { logDebug } from '@/shared/utils/logging';
+import { listWebhookSubscriptions, signWebhookPayload } from '@/shared/utils/webhook';
+
+const CLIENT_ID_KEY = 'clientId';
+const DELIVERY_PREFIX = 'delivery:';
+// Index of the deliveries of each subscription, pointing at the delivery keys
+const SUBSCRIPTION_DELIVERY_PREFIX = 'subscription:';
+const PENDING_PREFIX = 'pending:';
+const SENT_PREFIX = 'sent:';
+
+// Delay before each retry; a delivery fails for good once they are exhausted
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 6 * 60 * 60 * 1000];
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Delivery records and dedupe markers older than this are pruned
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_EXPIRY_WARNING_DAYS = 7;
+
+/**
+ * Storage key of a delivery, sortable by creation time
+ */
+function deliveryKey(createdAt: number, id = ''): string {
+  return `${DELIVERY_PREFIX}${createdAt.toString().padStart(15, '0')}:${id}`;
+}
+
+/**
+ * Storage key of a delivery in the index of its subscription, sortable by creation time
+ */
+function subscriptionDeliveryKey(delivery: Pick<WebhookDelivery, 'subscriptionId' | 'createdAt' | 'id'>): string {
+  return `${SUBSCRIPTION_DELIVERY_PREFIX}${delivery.subscriptionId}:${delivery.createdAt.toString().padStart(15, '0')}:${delivery.id}`;
+}
+
+/**
+ * Check whether an event concerns a subscription beyond its event list (thresholds and warning windows)
+ */
+function matchesSubscription(subscription: WebhookSubscription, event: WebhookEvent, data: Record<string, unknown>): boolean {
+  if (!subscription.active || !subscription.events.includes(event)) {
+    return false;
+  }
+
+  if (event === 'credits.low') {
+    return subscription.lowBalanceThreshold === data.threshold;
+  }
+
+  if (event === 'key.expiring') {
+    const warningMs = (subscription.expiryWarningDays ?? DEFAULT_EXPIRY_WARNING_DAYS) * 24 * 60 * 60 * 1000;
+    return typeof data.expiresAt === 'number' && data.expiresAt - Date.now() <= warningMs;
+  }
+
+  return true;
+}
+
+/**
+ * Durable Object delivering the webhooks of one client.
+ * Deliveries are signed, retried with backoff from an alarm, and kept with every attempt for inspection.
+ */
+export class WebhookDispatcher extends DurableObject<Env> {
+  /**
+   * Notify the subscriptions of the client interested in an event, making the first attempt right away.
+   * With a dedupe key, each subscription is notified at most once for that key.
+   */
+  async dispatch(clientId: string, event: WebhookEvent, data: Record<string, unknown>, dedupeKey?: string): Promise<WebhookDelivery[]> {
+    const deliveries: WebhookDelivery[] = [];
+    for (const [delivery, subscription] of await this.createDeliveries(clientId, event, data, dedupeKey)) {
+      deliveries.push(await this.attempt(delivery, subscription));
+    }
+
+    await this.scheduleAlarm();
+
+    return deliveries;
+  }
+
+  /**
+   * Notify the subscriptions of the client interested in an event, leaving every attempt to the alarm
+   * so the caller never waits on the client's endpoints
+   */
+  async enqueue(clientId: string, event: WebhookEvent, data: Record<string, unknown>): Promise<WebhookDelivery[]> {
+    const deliveries: WebhookDelivery[] = [];
+    for (const [delivery] of await this.createDeliveries(clientId, event, data)) {
+      const key = deliveryKey(delivery.createdAt, delivery.id);
+      await this.ctx.storage.put<unknown>({
+        [key]: delivery,
+        [subscriptionDeliveryKey(delivery)]: key,
+        [PENDING_PREFIX + delivery.id]: key,
+      });
+      deliveries.push(delivery);
+    }
+
+    await this.scheduleAlarm();
+
+    return deliveries;
+  }
+
+  /**
+   * List the deliveries of a subscription, newest first
+   */
+  async listDeliveries(subscriptionId: string, limit: number): Promise<WebhookDelivery[]> {
+    const index = await this.ctx.storage.list<string>({
+      prefix: `${SUBSCRIPTION_DELIVERY_PREFIX}${subscriptionId}:`,
+      reverse: true,
+      limit,
+    });
+    const deliveries = await this.ctx.storage.get<WebhookDelivery>([...index.values()]);
+    return [...index.values()].map((key) => deliveries.get(key)).filter((delivery): delivery is WebhookDelivery => !!delivery);
+  }
+
+  /**
+   * Retry the deliveries that are due and prune old records
+   */
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const clientId = (await this.ctx.storage.get<string>(CLIENT_ID_KEY)) ?? '';
+    const subscriptions = new Map((await listWebhookSubscriptions(clientId, this.env)).map((sub) => [sub.id, sub]));
+
+    for (const [pendingKey, key] of await this.ctx.storage.list<string>({ prefix: PENDING_PREFIX })) {
+      const delivery = await this.ctx.storage.get<WebhookDelivery>(key);
+      if (!delivery) {
+        await this.ctx.storage.delete(pendingKey);
+        continue;
+      }
+
+      if (delivery.nextAttemptAt === null || delivery.nextAttemptAt > now) {
+        continue;
+      }
+
+      // Deliveries of removed subscriptions are abandoned
+      const subscription = subscriptions.get(delivery.subscriptionId);
+      if (!subscription) {
+        await this.ctx.storage.put<unknown>({ [key]: { ...delivery, status: 'failed', nextAttemptAt: null } });
+        await this.ctx.storage.delete(pendingKey);
+        continue;
+      }
+
+      await this.attempt(delivery, subscription);
+    }
+
+    // Prune old deliveries, and dedupe markers old enough that their event can no longer recur
+    const expiredDeliveries = await this.ctx.storage.list<WebhookDelivery>({
+      prefix: DELIVERY_PREFIX,
+      end: deliveryKey(now - DELIVERY_RETENTION_MS),
+    });
+    const sentMarkers = await this.ctx.storage.list<number>({ prefix: SENT_PREFIX });
+    const expiredMarkers = [...sentMarkers].filter(([, sentAt]) => sentAt < now - DELIVERY_RETENTION_MS).map(([key]) => key);
+    const expiredKeys = [...expiredDeliveries.keys(), ...[...expiredDeliveries.values()].map(subscriptionDeliveryKey), ...expiredMarkers];
+    // Storage deletes at most 128 keys at once
+    for (let start = 0; start < expiredKeys.length; start += 128) {
+      await this.ctx.storage.delete(expiredKeys.slice(start, start + 128));
+    }
+
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Create the pending deliveries of an event for the interested subscriptions, skipping those already notified for the dedupe key
+   */
+  private async createDeliveries(
+    clientId: string,
+    event: WebhookEvent,
+    data: Record<string, unknown>,
+    dedupeKey?: string
+  ): Promise<[WebhookDelivery, WebhookSubscription][]> {
+    // Recorded for the retries, since the object does not know the name it was created from
+    if (!(await this.ctx.storage.get(CLIENT_ID_KEY))) {
+      await this.ctx.storage.put(CLIENT_ID_KEY, clientId);
+    }
+
+    const subscriptions = (await listWebhookSubscriptions(clientId, this.env)).filter((subscription) =>
+      matchesSubscription(subscription, event, data)
+    );
+
+    const deliveries: [WebhookDelivery, WebhookSubscription][] = [];
+    for (const subscription of subscriptions) {
+      if (dedupeKey) {
+        const sentKey = `${SENT_PREFIX}${subscription.id}:${dedupeKey}`;
+        if (await this.ctx.storage.get(sentKey)) {
+          continue;
+        }
+        await this.ctx.storage.put(sentKey, Date.now());
+      }
+
+      const createdAt = Date.now();
+      deliveries.push([
+        {
+          id: crypto.randomUUID(),
+          subscriptionId: subscription.id,
+          event,
+          payload: { event, clientId, createdAt, data },
+          status: 'pending',
+          attempts: [],
+          nextAttemptAt: createdAt,
+          createdAt,
+        },
+        subscription,
+      ]);
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Send a delivery once, record the attempt and schedule the next one if it failed
+   */
+  private async attempt(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+    const attemptedAt = Date.now();
+    let status: number | null = null;
+    let error: string | undefined;
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Apiki-Event': delivery.event,
+          'X-Apiki-Delivery': delivery.id,
+          'X-Apiki-Signature': await signWebhookPayload(subscription.secret, attemptedAt, body),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      status = response.status;
+      if (!response.ok) {
+        error = `Unexpected status ${response.status}`;
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+
+    const attempts = [...delivery.attempts, { attemptedAt, status, ...(error && { error }), durationMs: Date.now() - attemptedAt }];
+    const retryDelay = RETRY_DELAYS_MS[attempts.length - 1];
+    const updated: WebhookDelivery = {
+      ...delivery,
+      attempts,
+      status: !error ? 'delivered' : retryDelay !== undefined ? 'pending' : 'failed',
+      nextAttemptAt: error && retryDelay !== undefined ? Date.now() + retryDelay : null,
+    };
+
+    const key = deliveryKey(delivery.createdAt, delivery.id);
+    await this.ctx.storage.put<unknown>({ [key]: updated, [subscriptionDeliveryKey(delivery)]: key });
+    if (updated.status === 'pending') {
+      await this.ctx.storage.put(PENDING_PREFIX + delivery.id, key);
+    } else {
+      await this.ctx.storage.delete(PENDING_PREFIX + delivery.id);
+    }
+
+    logDebug('webhook', `Delivery ${delivery.id} of ${delivery.event} to ${subscription.id}: ${updated.status}`, { status, error });
+
+    return updated;
+  }
+
+  /**
+   * Wake up for the next pending retry, or for the daily pruning
+   */
+  private async scheduleAlarm(): Promise<void> {
+    let nextAlarm = Date.now() + PRUNE_INTERVAL_MS;
+    for (const key of (await this.ctx.storage.list<string>({ prefix: PENDING_PREFIX })).values()) {
+      const delivery = await this.ctx.storage.get<WebhookDelivery>(key);
+      if (delivery?.nextAttemptAt && delivery.nextAttemptAt < nextAlarm) {
+        nextAlarm = delivery.nextAttemptAt;
+      }
+    }
+
+    await this.ctx.storage.setAlarm(nextAlarm);
+  }
+}
+
+/**
+ * Get the webhook dispatcher stub for a client
+ */
+export function getWebhookDispatcher(clientId: string, env: Env): DurableObjectStub<WebhookDispatcher> {
+  return env.WEBHOOK_DISPATCHER.get(env.WEBHOOK_DISPATCHER.idFromName(clientId));
+}
@@ -0,0 +1,72 @@
+// D1 storage backend - strongly consistent SQLite, with indexed prefix listing
+
+import type { StorageBackend, StorageEntryPage } from '.';
+
+/**
+ * Exclusive upper bound of the keys starting with a prefix, so prefix listing is a range scan of the primary key
+ */
+function prefixUpperBound(prefix: string): string {
+  return prefix.slice(0, -1) + String.fromCharCode(prefix.charCodeAt(prefix.length - 1) + 1);
+}
+
+/**
+ * Storage backend over the entries table of a D1 database (see migrations/)
+ */
+export class D1Storage implements StorageBackend {
+  constructor(private readonly db: D1Database) {}
+
+  async get(key: string): Promise<string | null> {
+    const row = await this.db
+      .prepare('SELECT value FROM entries WHERE key = ?1 AND (expires_at IS NULL OR expires_at > ?2)')
+      .bind(key, Date.now())
+      .first<{ value: string }>();
+    return row?.value ?? null;
+  }
+
+  async put(key: string, value: string, ttl?: number): Promise<void> {
+    await this.db
+      .prepare(
+        'INSERT INTO entries (key, value, expires_at) VALUES (?1, ?2, ?3) ON CONFLICT (key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at'
+      )
+      .bind(key, value, ttl ? Date.now() + ttl * 1000 : null)
+      .run();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.db.prepare('DELETE FROM entries WHERE key = ?1').bind(key).run();
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const now = Date.now();
+    const statement = prefix
+      ? this.db
+          .prepare('SELECT key FROM entries WHERE key >= ?1 AND key < ?2 AND (expires_at IS NULL OR expires_at > ?3) ORDER BY key')
+          .bind(prefix, prefixUpperBound(prefix), now)
+      : this.db.prepare('SELECT key FROM entries WHERE expires_at IS NULL OR expires_at > ?1 ORDER BY key').bind(now);
+
+    const { results } = await statement.all<{ key: string }>();
+    return results.map((row) => row.key);
+  }
+
+  // The cursor is the last key of the previous page
+  async listEntries(prefix: string, limit: number, cursor?: string): Promise<StorageEntryPage> {
+    const upperBound = prefix ? prefixUpperBound(prefix) : null;
+    const { results } = await this.db
+      .prepare(
+        'SELECT key, value, expires_at FROM entries WHERE key >= ?1 AND key > ?2 AND (?3 IS NULL OR key < ?3) AND (expires_at IS NULL OR expires_at > ?4) ORDER BY key LIMIT ?5'
+      )
+      .bind(prefix, cursor ?? '', upperBound, Date.now(), limit)
+      .all<{ key: string; value: string; expires_at: number | null }>();
+
+    return {
+      entries: results.map((row) => ({ key: row.key, value: row.value, expiresAt: row.expires_at })),
+      cursor: results.length === limit ? results[results.length - 1].key : null,
+    };
+  }
+
+  // Expired rows are filtered out on read and purged by the scheduled jobs, as D1 has no native expiry
+  async purgeExpired(): Promise<number> {
+    const result = await this.db.prepare('DELETE FROM entries WHERE expires_at <= ?1').bind(Date.now()).run();
+    return result.meta.changes;
+  }
+}
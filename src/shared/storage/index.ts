@@ -0,0 +1,105 @@
+// Storage backends holding the API keys, credits, clients, targets and other records of the gateway and admin workers
+
+import { D1Storage } from './d1Storage';
+import { KvStorage } from './kvStorage';
+import { MemoryStorage } from './memoryStorage';
+
+export interface StorageEntry {
+  key: string;
+  value: string;
+  // Expiry time in milliseconds, null for entries without TTL
+  expiresAt: number | null;
+}
+
+export interface StorageEntryPage {
+  entries: StorageEntry[];
+  // Cursor of the next page, null on the last page
+  cursor: string | null;
+}
+
+/**
+ * Key-value storage used by the key prefixes in '@/shared/utils/kv'.
+ * Values are strings (JSON for structured records), TTLs are in seconds.
+ */
+export interface StorageBackend {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, ttl?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Every key starting with a prefix, in ascending order
+  list(prefix: string): Promise<string[]>;
+  // One page of the entries starting with a prefix, in ascending key order, after the cursor of the previous page
+  listEntries(prefix: string, limit: number, cursor?: string): Promise<StorageEntryPage>;
+  // Remove the expired entries of backends without native expiry, returning how many were removed
+  purgeExpired(): Promise<number>;
+}
+
+export type StorageBackendName = 'kv' | 'd1' | 'memory';
+
+export const STORAGE_BACKENDS: StorageBackendName[] = ['kv', 'd1', 'memory'];
+
+// Backends whose entries outlive the isolate, and can be copied to one another
+export const PERSISTENT_STORAGE_BACKENDS: StorageBackendName[] = ['kv', 'd1'];
+
+// KV rejects TTLs below a minute
+const MIN_COPY_TTL = 60;
+
+/**
+ * Create a storage backend by name
+ */
+export function createStorage(backend: StorageBackendName, env: Env): StorageBackend {
+  switch (backend) {
+    case 'kv':
+      return new KvStorage(env.APIKI_KV);
+    case 'd1':
+      if (!env.APIKI_DB) {
+        throw new Error('The d1 storage backend requires the APIKI_DB binding');
+      }
+      return new D1Storage(env.APIKI_DB);
+    case 'memory':
+      // Nothing is persisted or shared between isolates, which would silently lose keys and credits in production
+      if (env.ENVIRONMENT !== 'development') {
+        throw new Error('The memory storage backend is only available when ENVIRONMENT is development');
+      }
+      return new MemoryStorage();
+    default:
+      throw new Error(`Unknown storage backend ${backend}, expected one of ${STORAGE_BACKENDS.join(', ')}`);
+  }
+}
+
+/**
+ * Get the storage backend selected by the STORAGE_BACKEND variable (defaults to KV).
+ * The gateway and admin workers must use the same backend.
+ */
+export function getStorage(env: Env): StorageBackend {
+  return createStorage((env.STORAGE_BACKEND || 'kv') as StorageBackendName, env);
+}
+
+/**
+ * Copy one page of entries from a backend to another, keeping their remaining TTL.
+ * Entries expiring before they can be copied are skipped. Returns the cursor of the next page.
+ */
+export async function copyStorageEntries(
+  source: StorageBackend,
+  target: StorageBackend,
+  limit: number,
+  cursor?: string
+): Promise<{ copied: number; cursor: string | null }> {
+  const page = await source.listEntries('', limit, cursor);
+
+  let copied = 0;
+  for (const entry of page.entries) {
+    if (entry.expiresAt === null) {
+      await target.put(entry.key, entry.value);
+      copied++;
+      continue;
+    }
+
+    const ttl = Math.ceil((entry.expiresAt - Date.now()) / 1000);
+    if (ttl > 0) {
+      await target.put(entry.key, entry.value, Math.max(ttl, MIN_COPY_TTL));
+      copied++;
+    }
+  }
+
+  return { copied, cursor: page.cursor };
+}
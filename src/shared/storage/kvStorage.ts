@@ -0,0 +1,67 @@
+// Workers KV storage backend - eventually consistent, the default
+
+import type { StorageBackend, StorageEntry, StorageEntryPage } from '.';
+
+// Most keys KV reads at once
+const KV_BULK_GET_LIMIT = 100;
+
+/**
+ * Storage backend over a Workers KV namespace
+ */
+export class KvStorage implements StorageBackend {
+  constructor(private readonly namespace: KVNamespace) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.namespace.get(key);
+  }
+
+  async put(key: string, value: string, ttl?: number): Promise<void> {
+    await this.namespace.put(key, value, ttl ? { expirationTtl: ttl } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.namespace.delete(key);
+  }
+
+  // Follows KV pagination (1000 keys per page)
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.namespace.list({ prefix, cursor });
+      keys.push(...result.keys.map((key) => key.name));
+      cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor);
+    return keys;
+  }
+
+  // The cursor is the KV list cursor
+  async listEntries(prefix: string, limit: number, cursor?: string): Promise<StorageEntryPage> {
+    const result = await this.namespace.list({ prefix, limit, cursor });
+
+    // Read the values in bulk, KV returns at most 100 keys per read
+    const values = new Map<string, string | null>();
+    for (let start = 0; start < result.keys.length; start += KV_BULK_GET_LIMIT) {
+      const keys = result.keys.slice(start, start + KV_BULK_GET_LIMIT).map((key) => key.name);
+      for (const [key, value] of await this.namespace.get(keys, 'text')) {
+        values.set(key, value);
+      }
+    }
+
+    const entries: StorageEntry[] = [];
+    for (const key of result.keys) {
+      const value = values.get(key.name);
+      // Entries may expire between the listing and the read
+      if (value !== null && value !== undefined) {
+        entries.push({ key: key.name, value, expiresAt: key.expiration ? key.expiration * 1000 : null });
+      }
+    }
+
+    return { entries, cursor: result.list_complete ? null : result.cursor };
+  }
+
+  // KV expires entries itself
+  async purgeExpired(): Promise<number> {
+    return 0;
+  }
+}
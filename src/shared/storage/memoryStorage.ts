@@ -0,0 +1,71 @@
+// In-memory storage backend - for local development only, nothing is persisted
+
+import type { StorageBackend, StorageEntryPage } from '.';
+
+// Entries are shared by every backend instance of the isolate, and lost when it is evicted
+const entries = new Map<string, { value: string; expiresAt: number | null }>();
+
+/**
+ * Storage backend over an in-isolate map
+ */
+export class MemoryStorage implements StorageBackend {
+  async get(key: string): Promise<string | null> {
+    const entry = entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async put(key: string, value: string, ttl?: number): Promise<void> {
+    entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl * 1000 : null });
+  }
+
+  async delete(key: string): Promise<void> {
+    entries.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const now = Date.now();
+    return [...entries.entries()]
+      .filter(([key, entry]) => key.startsWith(prefix) && (entry.expiresAt === null || entry.expiresAt > now))
+      .map(([key]) => key)
+      .sort();
+  }
+
+  // The cursor is the last key of the previous page
+  async listEntries(prefix: string, limit: number, cursor?: string): Promise<StorageEntryPage> {
+    const keys = (await this.list(prefix)).filter((key) => cursor === undefined || key > cursor).slice(0, limit);
+    const pageEntries = keys.map((key) => {
+      const entry = entries.get(key) as { value: string; expiresAt: number | null };
+      return { key, value: entry.value, expiresAt: entry.expiresAt };
+    });
+
+    return { entries: pageEntries, cursor: keys.length === limit ? keys[keys.length - 1] : null };
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt !== null && entry.expiresAt <= now) {
+        entries.delete(key);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Remove every entry, e.g. between tests
+   */
+  static clear(): void {
+    entries.clear();
+  }
+}
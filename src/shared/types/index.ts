@@ -1,8 +1,219 @@
 export interface ApiKeyConfig {
+  // Non-secret key ID (the leading characters of the key)
+  keyId: string;
   active: boolean;
   expiresAt: number | null;
   clientId: string;
-  targetId: string;
+  // Legacy single target, kept for keys created before targetIds
+  targetId?: string;
+  // Targets this key may access, or '*' for every target
+  targetIds?: string[] | '*';
+  rateLimit?: RateLimitConfig;
+  quota?: QuotaConfig;
+  restrictions?: ApiKeyRestrictions;
+  // Rotation history: the key this one replaced, and the key that replaced it
+  rotatedFrom?: string;
+  rotatedTo?: string;
+  rotatedAt?: number;
+  // End of the window in which a rotated key keeps working
+  rotationGraceEndsAt?: number;
+  // First key of the rotation lineage, whose quota tracker counts the usage of every key of the lineage
+  quotaKeyId?: string;
+}
+
+export interface ApiKeyRestrictions {
+  // IP addresses or CIDR ranges (IPv4 or IPv6) the key may be used from
+  allowedIps?: string[];
+  // Origin patterns of the browser pages that may use the key, matched against Origin or Referer (e.g. 'https://*.example.com')
+  allowedReferrers?: string[];
+  // ISO 3166-1 alpha-2 country codes the key may or may not be used from
+  allowedCountries?: string[];
+  deniedCountries?: string[];
+}
+
+export type RestrictionReason = 'ip_not_allowed' | 'referrer_not_allowed' | 'country_not_allowed' | 'country_denied';
+
+export interface CreditTransaction {
+  id: string;
+  type: 'topup' | 'adjustment' | 'debit' | 'refund' | 'grant';
+  // Signed change applied to the balance
+  amount: number;
+  // Balance after the change
+  balance: number;
+  reason?: string;
+  actor?: string;
+  requestId?: string;
+  createdAt: number;
+}
+
+export type CreditTransactionDetails = Pick<CreditTransaction, 'reason' | 'actor' | 'requestId'>;
+
+export interface CreditTransactionQuery extends PageOptions {
+  // Inclusive time range, in milliseconds
+  from?: number;
+  to?: number;
+}
+
+export interface ApiKeySummary {
+  keyId: string;
+  clientId: string;
+  status: 'active' | 'inactive' | 'expired' | 'rotating' | 'rotated';
+  expiresAt: number | null;
+  targetIds: string[] | '*';
+}
+
+export type AdminRole =
+  | 'admins:read'
+  | 'admins:write'
+  | 'keys:read'
+  | 'keys:write'
+  | 'credits:read'
+  | 'credits:write'
+  | 'clients:read'
+  | 'clients:write'
+  | 'targets:read'
+  | 'targets:write'
+  | 'usage:read'
+  | 'audit:read'
+  | 'jobs:read'
+  | 'storage:write';
+
+export interface AdminPrincipal {
+  id: string;
+  name: string;
+  roles: AdminRole[];
+  active: boolean;
+  createdAt: number;
+}
+
+// Who is making an admin request, for authorization and auditing
+export interface AdminContext {
+  principal: AdminPrincipal;
+  requestId: string;
+  ip: string | null;
+}
+
+export interface AuditEntry {
+  // Position in the hash chain, starting at 1
+  seq: number;
+  actor: string;
+  // Operation, e.g. 'api-key.update'
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  // Snapshots of the resource around the operation, with secrets redacted
+  before: unknown;
+  after: unknown;
+  requestId: string;
+  ip: string | null;
+  createdAt: number;
+  // Hash of the previous entry, and of this entry chained to it
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery extends PageOptions {
+  actor?: string;
+  resourceType?: string;
+  resourceId?: string;
+  // Inclusive time range, in milliseconds
+  from?: number;
+  to?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  // First entry whose hash or link does not match the chain
+  brokenAt?: number;
+}
+
+export interface ApiKeyListFilters {
+  clientId?: string;
+  active?: boolean;
+  expiringBefore?: number;
+}
+
+// Invalid field of a request body, e.g. { field: 'rateLimit.limit', message: 'must be at least 1' }
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface PageOptions {
+  limit: number;
+  // Opaque cursor returned by the previous page
+  cursor?: string;
+}
+
+export interface ClientConfig {
+  rateLimit?: RateLimitConfig;
+  creditGrant?: CreditGrantConfig;
+}
+
+// Credits granted to a client at the start of every interval by the scheduled jobs
+export interface CreditGrantConfig {
+  amount: number;
+  interval: 'day' | 'week' | 'month';
+  // Reset the balance to the amount, or add the amount to the balance
+  mode: 'reset' | 'accumulate';
+}
+
+export interface JobRunSummary {
+  // Scheduled time of the cron event, shared by retries of the same run
+  id: string;
+  cron: string;
+  scheduledTime: number;
+  startedAt: number;
+  finishedAt: number;
+  creditGrants: { applied: number; skipped: number; failed: number };
+  keyCleanup: { archived: number; failed: number };
+  expiryNotifications: { checked: number };
+  // Expired entries removed from storage backends without native expiry
+  storagePurge: { purged: number };
+  errors: string[];
+}
+
+export type WebhookEvent = 'credits.low' | 'credits.depleted' | 'key.expiring' | 'key.deactivated';
+
+export interface WebhookSubscription {
+  id: string;
+  clientId: string;
+  url: string;
+  events: WebhookEvent[];
+  // Signing secret of the deliveries, only returned when the subscription is created
+  secret: string;
+  active: boolean;
+  // Balance below which credits.low fires
+  lowBalanceThreshold?: number;
+  // How many days before expiry key.expiring fires (default 7)
+  expiryWarningDays?: number;
+  createdAt: number;
+}
+
+export interface WebhookAttempt {
+  attemptedAt: number;
+  // Response status, null if the request failed
+  status: number | null;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+  nextAttemptAt: number | null;
+  createdAt: number;
+}
+
+// Balance thresholds a credit ledger watches on behalf of its client's webhooks
+export interface BalanceAlerts {
+  lowThresholds: number[];
+  depleted: boolean;
 }
 
 export interface TargetConfig {
@@ -10,15 +221,264 @@ export interface TargetConfig {
   name: string;
   pattern: string;
   isRegex: boolean;
-  targetUrl: string;
+  // Single upstream origin, used when no origins are listed
+  targetUrl?: string;
+  // Several upstream origins, selected by the load balancing strategy
+  origins?: OriginConfig[];
+  loadBalancing?: LoadBalancingConfig;
+  // Add an X-Apiki-Upstream response header naming the chosen origin (for troubleshooting)
+  exposeUpstreamHeader?: boolean;
+  // How clients may present their API key (defaults to every transport)
+  apiKeyTransports?: ApiKeyTransport[];
+  // Credentials accepted from clients (defaults to API keys only)
+  authMode?: TargetAuthMode;
+  jwt?: JwtAuthConfig;
   costInfo: {
     cost: number;
     description: string;
+    // Upstream status codes that release the reserved credits instead of charging them
+    refundableStatuses?: number[];
+    // Charge the cost reported by the upstream instead of the flat cost
+    metering?: MeteringConfig;
+    // Ordered pricing rules, the first matching rule overrides the flat cost
+    rules?: PricingRule[];
   };
+  // Default per-key rate limit for keys without their own
+  rateLimit?: RateLimitConfig;
+  // Credentials the gateway presents to the upstream
+  upstreamAuth?: UpstreamAuthConfig;
+  transform?: TransformConfig;
+  resilience?: ResilienceConfig;
+}
+
+// X-API-Key header, Authorization: Bearer header or api_key query parameter
+export type ApiKeyTransport = 'header' | 'bearer' | 'query';
+
+export type TargetAuthMode = 'apiKey' | 'jwt' | 'both';
+
+export type JwtAlgorithm = 'RS256' | 'ES256' | 'HS256';
+
+export interface JwtAuthConfig {
+  // Expected iss claim
+  issuer: string;
+  // Accepted aud claim values; the audience is not checked when omitted
+  audience?: string | string[];
+  // Accepted signing algorithms (defaults to every algorithm with a configured key)
+  algorithms?: JwtAlgorithm[];
+  // JSON Web Key Set with the RS256 and ES256 public keys of the identity provider
+  jwks?: { keys: (JsonWebKey & { kid?: string })[] };
+  // Name of the Worker secret holding the HS256 shared key, which must start with JWT_
+  secret?: string;
+  // Claim holding the client ID (defaults to 'sub')
+  clientIdClaim?: string;
+  // Gateway client ID of each accepted client ID claim value; tokens of other clients are rejected
+  clients: Record<string, string>;
+  // Allowed clock skew for exp and nbf, in seconds (defaults to 60)
+  clockTolerance?: number;
+}
+
+export interface OriginConfig {
+  url: string;
+  // Relative weight for the weighted strategy (defaults to 1)
+  weight?: number;
+}
+
+export interface LoadBalancingConfig {
+  strategy: 'round-robin' | 'weighted' | 'least-recently-failed';
+  // Consecutive failures that eject an origin (defaults to 3)
+  failureThreshold?: number;
+  // How long an ejected origin is skipped (defaults to 30 seconds)
+  cooldownMs?: number;
+}
+
+export interface ResilienceConfig {
+  // Time allowed for the upstream response headers, answered with a 504 (no timeout by default)
+  timeoutMs?: number;
+  // Retries for idempotent methods only
+  retry?: {
+    // Retries after the first attempt
+    attempts: number;
+    // Base delay, doubled after each retry
+    backoffMs: number;
+    // Upstream statuses that trigger a retry (defaults to 502, 503, 504)
+    statuses?: number[];
+  };
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+export interface CircuitBreakerConfig {
+  // Failure ratio (0-1) in a window that opens the circuit
+  errorRateThreshold: number;
+  // Requests needed in a window before the error rate is considered
+  minRequests: number;
+  windowMs: number;
+  // Time the circuit stays open before a probe request is let through
+  cooldownMs: number;
+}
+
+export interface CircuitBreakerResult {
+  allowed: boolean;
+  state: 'closed' | 'open' | 'half-open';
+  // Seconds until a request may be allowed again (0 when allowed)
+  retryAfter: number;
+}
+
+export interface HeaderRules {
+  // Appended to any existing value
+  add?: Record<string, string>;
+  // Replacing any existing value
+  set?: Record<string, string>;
+  remove?: string[];
+}
+
+export interface TransformConfig {
+  request?: {
+    headers?: HeaderRules;
+    // Query parameters set on the upstream URL, overriding client values
+    query?: Record<string, string>;
+  };
+  response?: {
+    headers?: HeaderRules;
+  };
+  // Regex applied to the request path, with a replacement using capture groups (e.g. '^/complex/(.*)$' -> '/v2/$1')
+  pathRewrite?: {
+    pattern: string;
+    replacement: string;
+  };
+}
+
+/**
+ * Upstream credentials. `secret` is the name of a UPSTREAM_ prefixed Worker secret holding the value,
+ * never the value itself, so target configs can be stored and listed safely.
+ */
+export type UpstreamAuthConfig =
+  | { type: 'header'; header: string; secret: string }
+  | { type: 'bearer'; secret: string }
+  | { type: 'basic'; username: string; secret: string }
+  // Signs "<timestamp>.<METHOD>.<path and query>.<body SHA-256>" with HMAC-SHA256
+  | { type: 'hmac'; secret: string };
+
+export interface PricingRule {
+  name: string;
+  // HTTP methods the rule applies to (all methods if omitted)
+  methods?: string[];
+  // Sub-path relative to the target, exact or ending with '*' (all paths if omitted)
+  path?: string;
+  cost: number;
+  metering?: MeteringConfig;
+}
+
+export interface MeteringConfig {
+  // Response header holding the actual cost (e.g. X-Upstream-Cost)
+  header?: string;
+  // Dot-separated path of the actual cost in a JSON response body (e.g. usage.total_tokens),
+  // only read from bodies with a Content-Length of at most 1 MB so streamed and large responses are never buffered
+  jsonField?: string;
+  // Pre-authorized maximum, reserved before proxying and never exceeded
+  maxCost: number;
+}
+
+export interface ResolvedPrice {
+  // Name of the pricing rule that applied ('default' for the flat cost)
+  rule: string;
+  // Credits reserved before proxying
+  reserve: number;
+  // Credits charged when metering is off or the upstream reports no cost
+  cost: number;
+  metering?: MeteringConfig;
 }
 
 export interface CreditResult {
   success: boolean;
   remaining: number;
   used: number;
+  reservationId?: string;
+}
+
+export interface RateLimitConfig {
+  // Requests allowed per window
+  limit: number;
+  window: 'second' | 'minute';
+  // Maximum requests allowed at once (defaults to limit)
+  burst?: number;
+}
+
+export interface QuotaLimits {
+  requests?: number;
+  credits?: number;
+}
+
+// Per-key usage caps per calendar day and month, independent of the client credit balance
+export interface QuotaConfig {
+  daily?: QuotaLimits;
+  monthly?: QuotaLimits;
+  // IANA timezone in which days and months start (default UTC)
+  timezone?: string;
+}
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export interface QuotaUsage {
+  // Calendar period the usage counts towards, e.g. '2025-04-21' or '2025-04'
+  periodId: string;
+  requests: number;
+  credits: number;
+  // When the next period starts, in milliseconds
+  resetAt: number;
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  // Periods the request was counted in, to refund unused credits
+  periodIds: Record<QuotaPeriod, string>;
+  // Quota exceeded, or closest to running out when allowed
+  period: QuotaPeriod;
+  unit: keyof QuotaLimits;
+  limit: number;
+  remaining: number;
+  // Seconds until the quota resets
+  reset: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again
+  reset: number;
+  // Seconds until the next request is allowed (0 when allowed)
+  retryAfter: number;
+}
+
+export interface UsageEvent {
+  requestId: string;
+  clientId: string;
+  keyId: string;
+  targetId: string;
+  method: string;
+  status: number;
+  latencyMs: number;
+  creditsUsed: number;
+  timestamp: number;
+}
+
+export interface UsageQuery {
+  // Inclusive time range, in milliseconds
+  from: number;
+  to: number;
+  granularity: 'hour' | 'day' | 'month';
+  // Dimensions to group by within a client, in addition to the time bucket
+  groupBy: ('target' | 'key')[];
+}
+
+export interface UsageRow {
+  // Start of the time bucket, in milliseconds
+  bucket: number;
+  clientId?: string;
+  targetId?: string;
+  keyId?: string;
+  requests: number;
+  errors: number;
+  creditsUsed: number;
+  totalLatencyMs: number;
 }
@@ -0,0 +1,72 @@
+// API key storage helpers shared by the gateway and admin workers
+
+import type { ApiKeyConfig } from '@/shared/types';
+
+import { getApiKeyId, hashApiKey } from './crypto';
+import { KV_API_KEY_CLIENT, KV_API_KEY_HASH, KV_API_KEY_ID } from './kv';
+import { logDebug } from './logging';
+
+/**
+ * Hash an API key with the configured pepper, which every stored key hash depends on
+ */
+export async function getApiKeyHash(apiKey: string, env: Env): Promise<string> {
+  return hashApiKey(apiKey, env.API_KEY_PEPPER);
+}
+
+/**
+ * Resolve the stored hash of an API key from its key ID
+ */
+export async function getApiKeyHashById(keyId: string, env: Env): Promise<string | null> {
+  return KV_API_KEY_ID.getString(keyId, env);
+}
+
+/**
+ * Pick a key ID for an API key that is not already used by another key.
+ * Falls back to longer prefixes on the (unlikely) event of a collision.
+ */
+export async function assignApiKeyId(apiKey: string, keyHash: string, env: Env): Promise<string> {
+  for (let length = getApiKeyId(apiKey).length; length < apiKey.length; length++) {
+    const keyId = getApiKeyId(apiKey, length);
+    const existingHash = await getApiKeyHashById(keyId, env);
+    if (!existingHash || existingHash === keyHash) {
+      return keyId;
+    }
+  }
+
+  throw new Error('Unable to assign a unique API key ID');
+}
+
+/**
+ * Store an API key config under its hash and index it by key ID and by client
+ */
+export async function storeApiKeyConfig(keyHash: string, config: ApiKeyConfig, env: Env): Promise<void> {
+  await KV_API_KEY_HASH.put(keyHash, config, env);
+  await KV_API_KEY_ID.putString(config.keyId, keyHash, env);
+  await KV_API_KEY_CLIENT.put(`${config.clientId}:${config.keyId}`, config, env);
+}
+
+/**
+ * Remove an API key config and its indexes
+ */
+export async function removeApiKeyConfig(keyHash: string, config: ApiKeyConfig, env: Env): Promise<void> {
+  await KV_API_KEY_HASH.delete(keyHash, env);
+  await KV_API_KEY_ID.delete(config.keyId, env);
+  await KV_API_KEY_CLIENT.delete(`${config.clientId}:${config.keyId}`, env);
+}
+
+/**
+ * Copy a legacy record stored under the plaintext key to hashed storage.
+ * The plaintext record is kept: gateways at other locations may still miss the hashed record until KV propagates it,
+ * it is only expired by the admin migration run.
+ */
+export async function migrateLegacyApiKey(apiKey: string, legacyConfig: Omit<ApiKeyConfig, 'keyId'>, env: Env): Promise<ApiKeyConfig> {
+  const keyHash = await getApiKeyHash(apiKey, env);
+  const keyId = await assignApiKeyId(apiKey, keyHash, env);
+  const apiKeyConfig: ApiKeyConfig = { ...legacyConfig, keyId };
+
+  await storeApiKeyConfig(keyHash, apiKeyConfig, env);
+
+  logDebug('apikey', `Migrated legacy API key ${keyId} to hashed storage`);
+
+  return apiKeyConfig;
+}
@@ -2,14 +2,15 @@
  * Shared cryptographic utilities for the API Gateway
  */
 
+// Prefix of every generated API key
+export const API_KEY_PREFIX = 'apk_';
+
 /**
  * Generate a random API key with a specified format
  * Format: "apk_" + 24 characters (alphanumeric)
  */
-export function generateApiKey(): string {
-  const prefix = 'apk_';
+export function generateApiKey(prefix = API_KEY_PREFIX, length = 24): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  const length = 24;
 
   let result = '';
   const randValues = new Uint8Array(length);
@@ -21,3 +22,82 @@ export function generateApiKey(): string {
 
   return prefix + result;
 }
+
+// Number of leading API key characters used as the non-secret key ID ("apk_" + 8 characters)
+const API_KEY_ID_LENGTH = 12;
+
+/**
+ * Get the non-secret key ID of an API key (its leading characters)
+ */
+export function getApiKeyId(apiKey: string, length = API_KEY_ID_LENGTH): string {
+  return apiKey.slice(0, length);
+}
+
+/**
+ * Hash an API key for storage with HMAC-SHA256
+ * The pepper is required: hashes made without it would silently stop matching once it is set
+ */
+export async function hashApiKey(apiKey: string, pepper: string): Promise<string> {
+  if (!pepper) {
+    throw new Error('API_KEY_PEPPER is not configured');
+  }
+
+  return hmacSha256Hex(pepper, apiKey);
+}
+
+/**
+ * SHA-256 digest of a string or binary data, as hex
+ */
+export async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+/**
+ * HMAC-SHA256 signature of a string, as hex
+ */
+export async function hmacSha256Hex(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)));
+}
+
+/**
+ * Compare two strings in constant time
+ * Both values are digested first so neither their contents nor their lengths leak through timing
+ */
+export async function timingSafeEqual(a: string, b: string): Promise<boolean> {
+  const [digestA, digestB] = await Promise.all([sha256Hex(a), sha256Hex(b)]);
+
+  let diff = 0;
+  for (let i = 0; i < digestA.length; i++) {
+    diff |= digestA.charCodeAt(i) ^ digestB.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Encode binary data as a lowercase hex string
+ */
+export function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Decode a base64url string (RFC 4648, padding optional) into bytes
+ * Throws if the string is not valid base64url
+ */
+export function fromBase64Url(value: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new Error('Invalid base64url string');
+  }
+
+  const binary = atob(
+    value
+      .replace(/-/g, '+')
+      .replace(/_/g, '/')
+      .padEnd(Math.ceil(value.length / 4) * 4, '=')
+  );
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
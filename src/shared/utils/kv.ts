@@ -1,14 +1,17 @@
-// KV database access layer with optimized operations for Cloudflare KV
+// Storage access layer: key prefixes by domain over the configured storage backend (KV by default)
+
+import { getStorage, type StorageEntryPage } from '@/shared/storage';
+import type { PageOptions } from '@/shared/types';
 
 import { logDebug } from './logging';
 
 /**
- * Gets a string value from KV store, optimized for performance
+ * Gets a string value from the store, optimized for performance
  * String values are faster than JSON in Workers
  */
 async function getStringValue(key: string, env: Env): Promise<string | null> {
   try {
-    return await env.APIKI_KV.get(key);
+    return await getStorage(env).get(key);
   } catch (error) {
     logDebug('kv', `Error retrieving string ${key}`, { error });
     return null;
@@ -16,12 +19,13 @@ async function getStringValue(key: string, env: Env): Promise<string | null> {
 }
 
 /**
- * Gets a value from KV store with type casting
+ * Gets a value from the store with type casting
  * Use for complex objects only - string values are faster
  */
 async function getValue<T>(key: string, env: Env): Promise<T | null> {
   try {
-    return (await env.APIKI_KV.get(key, { type: 'json' })) as T | null;
+    const value = await getStorage(env).get(key);
+    return value === null ? null : (JSON.parse(value) as T);
   } catch (error) {
     logDebug('kv', `Error retrieving ${key}`, { error });
     return null;
@@ -29,12 +33,11 @@ async function getValue<T>(key: string, env: Env): Promise<T | null> {
 }
 
 /**
- * Puts a string value into KV store - fastest option
+ * Puts a string value into the store - fastest option
  */
 async function putStringValue(key: string, value: string, env: Env, ttl?: number): Promise<boolean> {
   try {
-    const options = ttl ? { expirationTtl: ttl } : undefined;
-    await env.APIKI_KV.put(key, value, options);
+    await getStorage(env).put(key, value, ttl);
     return true;
   } catch (error) {
     logDebug('kv', `Error storing string ${key}`, { error });
@@ -43,14 +46,13 @@ async function putStringValue(key: string, value: string, env: Env, ttl?: number
 }
 
 /**
- * Puts a value into KV store
+ * Puts a value into the store
  * For non-string values, this will JSON.stringify them
  */
 async function putValue(key: string, value: any, env: Env, ttl?: number): Promise<boolean> {
   try {
-    const options = ttl ? { expirationTtl: ttl } : undefined;
     const stringValue = typeof value === 'string' ? value : JSON.stringify(value);
-    await env.APIKI_KV.put(key, stringValue, options);
+    await getStorage(env).put(key, stringValue, ttl);
     return true;
   } catch (error) {
     logDebug('kv', `Error storing ${key}`, { error });
@@ -59,11 +61,11 @@ async function putValue(key: string, value: any, env: Env, ttl?: number): Promis
 }
 
 /**
- * Deletes a value from KV store
+ * Deletes a value from the store
  */
 async function deleteValue(key: string, env: Env): Promise<boolean> {
   try {
-    await env.APIKI_KV.delete(key);
+    await getStorage(env).delete(key);
     return true;
   } catch (error) {
     logDebug('kv', `Error deleting ${key}`, { error });
@@ -71,6 +73,30 @@ async function deleteValue(key: string, env: Env): Promise<boolean> {
   }
 }
 
+/**
+ * Lists all keys starting with a prefix, in ascending order
+ */
+async function listKeys(prefix: string, env: Env): Promise<string[]> {
+  try {
+    return await getStorage(env).list(prefix);
+  } catch (error) {
+    logDebug('kv', `Error listing ${prefix}`, { error });
+    return [];
+  }
+}
+
+/**
+ * Lists one page of the entries starting with a prefix, in ascending order
+ */
+async function listEntries(prefix: string, page: PageOptions, env: Env): Promise<StorageEntryPage> {
+  try {
+    return await getStorage(env).listEntries(prefix, page.limit, page.cursor);
+  } catch (error) {
+    logDebug('kv', `Error listing entries of ${prefix}`, { error });
+    return { entries: [], cursor: null };
+  }
+}
+
 /**
  * Helper class to prefix keys by domain with optimized methods
  */
@@ -108,8 +134,47 @@ class KeyPrefix {
   async delete(id: string, env: Env): Promise<boolean> {
     return deleteValue(this.key(id), env);
   }
+
+  // List the ids stored under this prefix, optionally only those starting with idPrefix
+  async list(env: Env, idPrefix = ''): Promise<string[]> {
+    const keyPrefix = this.key('');
+    const keys = await listKeys(keyPrefix + idPrefix, env);
+    return keys.map((key) => key.slice(keyPrefix.length));
+  }
+
+  // List one page of the JSON records stored under this prefix, optionally only those whose id starts with idPrefix
+  async listPage<T>(env: Env, page: PageOptions, idPrefix = ''): Promise<{ items: { id: string; value: T }[]; cursor: string | null }> {
+    const keyPrefix = this.key('');
+    const { entries, cursor } = await listEntries(keyPrefix + idPrefix, page, env);
+
+    const items: { id: string; value: T }[] = [];
+    for (const entry of entries) {
+      try {
+        items.push({ id: entry.key.slice(keyPrefix.length), value: JSON.parse(entry.value) as T });
+      } catch (error) {
+        logDebug('kv', `Error parsing ${entry.key}`, { error });
+      }
+    }
+    return { items, cursor };
+  }
 }
 
 // Export key prefixes with optimized methods
+// Legacy API key records, keyed by the plaintext key (migrated to KV_API_KEY_HASH on access)
 export const KV_API_KEY = new KeyPrefix('apikey');
+export const KV_API_KEY_HASH = new KeyPrefix('apikey-hash');
+export const KV_API_KEY_ID = new KeyPrefix('apikey-id');
+// Secondary index of API key configs by client, keyed by "<clientId>:<keyId>"
+export const KV_API_KEY_CLIENT = new KeyPrefix('apikey-client');
+// Expired API key configs removed by the cleanup job, keyed by "<clientId>:<keyId>"
+export const KV_API_KEY_ARCHIVE = new KeyPrefix('apikey-archive');
+// Admin principals, keyed by the hash of their admin key and indexed by admin ID
+export const KV_ADMIN_HASH = new KeyPrefix('admin-hash');
+export const KV_ADMIN_ID = new KeyPrefix('admin-id');
 export const KV_CREDITS = new KeyPrefix('credits');
+export const KV_CLIENT = new KeyPrefix('client');
+// Webhook subscriptions, keyed by "<clientId>:<webhookId>"
+export const KV_WEBHOOK = new KeyPrefix('webhook');
+export const KV_TARGET = new KeyPrefix('target');
+// Scheduled job run summaries, keyed so that listing returns the newest first
+export const KV_JOB_RUN = new KeyPrefix('job-run');
@@ -0,0 +1,141 @@
+// IP address, CIDR range and origin pattern helpers shared by the gateway and admin workers
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+/**
+ * Parse a dotted IPv4 address into its 32-bit value
+ */
+function parseIpv4(address: string): bigint | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || parseInt(part) > 255)) {
+    return null;
+  }
+
+  return parts.reduce((value, part) => (value << 8n) | BigInt(parseInt(part)), 0n);
+}
+
+/**
+ * Parse an IPv6 address (with :: compression and an optional trailing IPv4 part) into its 128-bit value
+ */
+function parseIpv6(address: string): bigint | null {
+  // Zone IDs (fe80::1%eth0) are rejected, they only make sense on the local host
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const toGroups = (half: string): number[] | null => {
+    if (!half) {
+      return [];
+    }
+
+    const groups: number[] = [];
+    const parts = half.split(':');
+    for (const [index, part] of parts.entries()) {
+      if (index === parts.length - 1 && part.includes('.')) {
+        const ipv4 = parseIpv4(part);
+        if (ipv4 === null) {
+          return null;
+        }
+        groups.push(Number(ipv4 >> 16n), Number(ipv4 & 0xffffn));
+      } else if (/^[0-9a-f]{1,4}$/i.test(part)) {
+        groups.push(parseInt(part, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) {
+    return null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  return [...head, ...new Array(missing).fill(0), ...tail].reduce((value, group) => (value << 16n) | BigInt(group), 0n);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) are read as IPv4.
+ */
+export function parseIp(address: string): ParsedIp | null {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) {
+    return { version: 4, value: ipv4 };
+  }
+
+  const ipv6 = parseIpv6(address);
+  if (ipv6 === null) {
+    return null;
+  }
+
+  if (ipv6 >> 32n === 0xffffn) {
+    return { version: 4, value: ipv6 & 0xffffffffn };
+  }
+  return { version: 6, value: ipv6 };
+}
+
+/**
+ * Check that a value is an IP address or a CIDR range (e.g. 203.0.113.0/24, 2001:db8::/32)
+ */
+export function isValidCidr(cidr: string): boolean {
+  const [address, prefix, ...rest] = cidr.split('/');
+  const ip = parseIp(address);
+  if (!ip || rest.length) {
+    return false;
+  }
+
+  if (prefix === undefined) {
+    return true;
+  }
+
+  const maxPrefix = ip.version === 4 ? 32 : 128;
+  return /^\d{1,3}$/.test(prefix) && parseInt(prefix) <= maxPrefix;
+}
+
+/**
+ * Check if an IP address is in a CIDR range. A range without prefix only matches the address itself.
+ */
+export function isIpInCidr(address: string, cidr: string): boolean {
+  const ip = parseIp(address);
+  const [rangeAddress, prefix] = cidr.split('/');
+  const range = parseIp(rangeAddress);
+  if (!ip || !range || ip.version !== range.version) {
+    return false;
+  }
+
+  const bits = ip.version === 4 ? 32 : 128;
+  const prefixLength = prefix === undefined ? bits : parseInt(prefix);
+  const shift = BigInt(bits - prefixLength);
+  return ip.value >> shift === range.value >> shift;
+}
+
+/**
+ * Check that a value is an origin pattern: an origin or host where '*' matches any part of a host name
+ * (e.g. 'https://app.example.com', 'https://*.example.com', '*.example.com', 'http://localhost:*')
+ */
+export function isValidOriginPattern(pattern: string): boolean {
+  return /^(https?:\/\/)?(\*|\*\.)?([a-z0-9-]+\.)*[a-z0-9-]+(:(\d{1,5}|\*))?$/i.test(pattern);
+}
+
+/**
+ * Check if an origin (scheme://host[:port]) matches an origin pattern.
+ * Patterns without scheme match both http and https, patterns without port only match the default port.
+ */
+export function matchesOriginPattern(origin: string, pattern: string): boolean {
+  const target = /^https?:\/\//i.test(pattern) ? origin : origin.replace(/^https?:\/\//i, '');
+  const regex = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/:\*$/, ':\\d+')
+    .replace(/\*/g, '[a-z0-9.-]*');
+  return new RegExp(`^${regex}$`, 'i').test(target);
+}
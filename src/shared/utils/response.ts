@@ -1,3 +1,5 @@
+import type { FieldError } from '@/shared/types';
+
 // Security headers applied to all responses for better protection
 const DEFAULT_SECURITY_HEADERS = {
   'X-Content-Type-Options': 'nosniff',
@@ -24,10 +26,13 @@ const PRODUCTION_ERROR_MESSAGES: Record<number, string> = {
   402: 'Payment Required',
   403: 'Forbidden',
   404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
   429: 'Too Many Requests',
   500: 'Internal Server Error',
   502: 'Bad Gateway',
   503: 'Service Unavailable',
+  504: 'Gateway Timeout',
 };
 
 /**
@@ -45,6 +50,20 @@ export function errorResponse(
   return Response.json({ error: responseMessage, code: status }, { status, headers });
 }
 
+/**
+ * Create a 400 response listing the invalid fields of a request
+ */
+export function fieldErrorResponse(
+  fields: FieldError[],
+  error = 'Invalid request body',
+  extraHeaders: Record<string, string> = {},
+  request?: Request,
+  env?: Env
+): Response {
+  const headers = getResponseHeaders(extraHeaders, request, env);
+  return Response.json({ error, code: 400, fields }, { status: 400, headers });
+}
+
 /**
  * Create a standardized success response with security headers and optional CORS
  */
@@ -0,0 +1,25 @@
+// Worker secrets referenced by name from target configs, shared by the gateway and admin workers
+
+// Upstream credentials may only reference secrets with this prefix, so the secrets of the workers themselves
+// (ADMIN_AUTH_KEY, API_KEY_PEPPER) can never be forwarded to an upstream chosen by a targets:write admin
+export const TARGET_SECRET_PREFIX = 'UPSTREAM_';
+
+// JWT verification keys may only reference secrets with this prefix, kept apart from the upstream credentials
+// so no target can forward a JWT signing key to its upstream
+export const JWT_SECRET_PREFIX = 'JWT_';
+
+const SECRET_NAME_PATTERN = /^[A-Z][A-Z0-9_]*[A-Z0-9]$/;
+
+/**
+ * Check that a value is the name of a secret that upstream credentials may reference
+ */
+export function isTargetSecretName(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(TARGET_SECRET_PREFIX) && SECRET_NAME_PATTERN.test(value);
+}
+
+/**
+ * Check that a value is the name of a secret that JWT verification keys may reference
+ */
+export function isJwtSecretName(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(JWT_SECRET_PREFIX) && SECRET_NAME_PATTERN.test(value);
+}
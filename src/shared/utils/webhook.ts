@@ -0,0 +1,23 @@
+// Webhook helpers shared by the gateway and admin workers
+
+import type { WebhookSubscription } from '@/shared/types';
+
+import { hmacSha256Hex } from './crypto';
+import { KV_WEBHOOK } from './kv';
+
+/**
+ * List the webhook subscriptions of a client
+ */
+export async function listWebhookSubscriptions(clientId: string, env: Env): Promise<WebhookSubscription[]> {
+  const webhookIds = await KV_WEBHOOK.list(env, `${clientId}:`);
+  const subscriptions = await Promise.all(webhookIds.map((webhookId) => KV_WEBHOOK.get<WebhookSubscription>(webhookId, env)));
+  return subscriptions.filter((subscription): subscription is WebhookSubscription => subscription !== null);
+}
+
+/**
+ * Signature header of a webhook delivery: "t=<timestamp>,v1=<HMAC-SHA256 of '<timestamp>.<body>'>".
+ * Receivers recompute the HMAC with their secret and reject stale timestamps to prevent replays.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
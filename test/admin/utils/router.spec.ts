@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { type AdminRoute, defineRoute, routeAdminRequest } from '@/admin/utils/router';
+import type { AdminContext, AdminRole } from '@/shared/types';
+import { successResponse } from '@/shared/utils/response';
+
+const env = {} as Env;
+
+const routes: AdminRoute<unknown>[] = [
+  defineRoute({
+    method: 'GET',
+    path: '/admin/items',
+    summary: 'List items',
+    tag: 'Items',
+    role: 'targets:read',
+    query: [{ name: 'limit', description: 'Maximum number of items', schema: { type: 'integer', minimum: 1, maximum: 100 } }],
+    responses: { 200: { description: 'Items' } },
+    handle: async ({ query }) => successResponse({ items: [], limit: Number(query.get('limit') ?? 10) }),
+  }),
+  defineRoute<{ name: string }>({
+    method: 'POST',
+    path: '/admin/items',
+    summary: 'Create an item',
+    tag: 'Items',
+    role: 'targets:write',
+    body: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+    responses: { 201: { description: 'Item created' } },
+    handle: async ({ body }) => successResponse({ name: body.name }, 201),
+  }),
+  defineRoute({
+    method: 'GET',
+    path: '/admin/items/:id',
+    summary: 'Get an item',
+    tag: 'Items',
+    role: 'targets:read',
+    responses: { 200: { description: 'Item' } },
+    handle: async ({ params }) => successResponse({ id: params.id }),
+  }),
+  defineRoute({
+    method: 'GET',
+    path: '/admin/items/latest',
+    summary: 'Get the latest item',
+    tag: 'Items',
+    role: 'targets:read',
+    responses: { 200: { description: 'Item' } },
+    handle: async () => successResponse({ id: 'latest' }),
+  }),
+];
+
+/**
+ * Admin context of a principal with the given roles
+ */
+function createContext(roles: AdminRole[] = ['targets:read', 'targets:write']): AdminContext {
+  return { principal: { id: 'admin-1', name: 'Admin', roles, active: true, createdAt: 0 }, requestId: 'req-1', ip: null };
+}
+
+/**
+ * Route a request to the test routes
+ */
+function route(method: string, path: string, body?: string, context = createContext()): Promise<Response | null> {
+  return routeAdminRequest(routes, new Request(`https://gateway.example.com${path}`, { method, body }), env, context);
+}
+
+describe('routeAdminRequest', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns null for unknown paths', async () => {
+    expect(await route('GET', '/admin/other')).toBeNull();
+  });
+
+  it('passes path parameters to the handler', async () => {
+    const response = await route('GET', '/admin/items/item%201');
+
+    expect(await response?.json()).toEqual({ id: 'item 1' });
+  });
+
+  it('prefers routes with fewer path parameters', async () => {
+    const response = await route('GET', '/admin/items/latest');
+
+    expect(await response?.json()).toEqual({ id: 'latest' });
+  });
+
+  it('answers 405 with the allowed methods, HEAD included for GET routes', async () => {
+    const response = await route('DELETE', '/admin/items');
+
+    expect(response?.status).toBe(405);
+    expect(response?.headers.get('Allow')).toBe('GET, HEAD, POST');
+  });
+
+  it('answers HEAD requests with the GET route headers and no body', async () => {
+    const response = await route('HEAD', '/admin/items');
+
+    expect(response?.status).toBe(200);
+    expect(response?.headers.get('Content-Type')).toContain('application/json');
+    expect(await response?.text()).toBe('');
+  });
+
+  it('requires the route role', async () => {
+    const response = await route('POST', '/admin/items', JSON.stringify({ name: 'item' }), createContext(['targets:read']));
+
+    expect(response?.status).toBe(403);
+    expect(await response?.json()).toMatchObject({ error: 'Admin role targets:write required' });
+  });
+
+  describe('query parameters', () => {
+    it('converts values to the schema type', async () => {
+      const response = await route('GET', '/admin/items?limit=20');
+
+      expect(await response?.json()).toEqual({ items: [], limit: 20 });
+    });
+
+    it('rejects invalid values, repeated values included', async () => {
+      for (const query of ['limit=abc', 'limit=0', 'limit=', 'limit=20&limit=500']) {
+        const response = await route('GET', `/admin/items?${query}`);
+
+        expect(response?.status).toBe(400);
+        expect(await response?.json()).toMatchObject({ error: 'Invalid query parameters', fields: [{ field: 'limit' }] });
+      }
+    });
+
+    it('ignores undeclared parameters', async () => {
+      const response = await route('GET', '/admin/items?cursor=abc');
+
+      expect(response?.status).toBe(200);
+    });
+  });
+
+  describe('body', () => {
+    it('passes the validated body to the handler', async () => {
+      const response = await route('POST', '/admin/items', JSON.stringify({ name: 'item' }));
+
+      expect(response?.status).toBe(201);
+      expect(await response?.json()).toEqual({ name: 'item' });
+    });
+
+    it('requires a body', async () => {
+      const response = await route('POST', '/admin/items');
+
+      expect(response?.status).toBe(400);
+      expect(await response?.json()).toMatchObject({ error: 'Request body is required' });
+    });
+
+    it('rejects invalid JSON', async () => {
+      const response = await route('POST', '/admin/items', '{');
+
+      expect(await response?.json()).toMatchObject({ code: 400, error: 'Request body must be valid JSON' });
+    });
+
+    it('lists the invalid fields', async () => {
+      const response = await route('POST', '/admin/items', JSON.stringify({ name: 1 }));
+
+      expect(response?.status).toBe(400);
+      expect(await response?.json()).toMatchObject({ error: 'Invalid request body', fields: [{ field: 'name' }] });
+    });
+  });
+});
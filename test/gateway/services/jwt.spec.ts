@@ -0,0 +1,189 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { authenticateJwt, verifyJwt } from '@/gateway/services/jwt';
+import type { JwtAuthConfig, TargetConfig } from '@/shared/types';
+import { KV_TARGET } from '@/shared/utils/kv';
+
+const SIGNING_KEY = 'test-signing-key';
+const ISSUER = 'https://idp.example.com';
+
+const env = {
+  STORAGE_BACKEND: 'memory',
+  ENVIRONMENT: 'development',
+  JWT_SIGNING_KEY: SIGNING_KEY,
+  UPSTREAM_SIGNING_KEY: SIGNING_KEY,
+} as unknown as Env;
+
+const hs256Config: JwtAuthConfig = { issuer: ISSUER, secret: 'JWT_SIGNING_KEY', clients: { 'idp-client': 'client-1' } };
+
+/**
+ * Base64url encoding of a string or binary data, as used by JWTs
+ */
+function toBase64Url(data: string | ArrayBuffer): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+  return Buffer.from(bytes).toString('base64url');
+}
+
+/**
+ * Sign a JWT with HS256, or with the given algorithm and private key
+ */
+async function signJwt(
+  claims: Record<string, unknown>,
+  { alg = 'HS256', kid, key }: { alg?: string; kid?: string; key?: CryptoKey } = {}
+): Promise<string> {
+  const signedData = `${toBase64Url(JSON.stringify({ alg, typ: 'JWT', ...(kid && { kid }) }))}.${toBase64Url(JSON.stringify(claims))}`;
+
+  let signature: ArrayBuffer;
+  if (key) {
+    signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, new TextEncoder().encode(signedData));
+  } else {
+    const hmacKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(SIGNING_KEY), { name: 'HMAC', hash: 'SHA-256' }, false, [
+      'sign',
+    ]);
+    signature = await crypto.subtle.sign('HMAC', hmacKey, new TextEncoder().encode(signedData));
+  }
+
+  return `${signedData}.${toBase64Url(signature)}`;
+}
+
+/**
+ * Claims of a valid token, expiring in an hour
+ */
+function validClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return { iss: ISSUER, sub: 'idp-client', exp: Math.floor(Date.now() / 1000) + 3600, ...overrides };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('verifyJwt', () => {
+  it('accepts a valid HS256 token and returns its claims', async () => {
+    const claims = validClaims();
+
+    expect(await verifyJwt(await signJwt(claims), hs256Config, env)).toEqual({ claims });
+  });
+
+  it('accepts a valid ES256 token signed by a JWKS key', async () => {
+    const { privateKey, publicKey } = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+      'sign',
+      'verify',
+    ])) as CryptoKeyPair;
+    const jwk = { ...((await crypto.subtle.exportKey('jwk', publicKey)) as JsonWebKey), kid: 'key-1' };
+    const config: JwtAuthConfig = { issuer: ISSUER, jwks: { keys: [jwk] }, clients: {} };
+
+    const token = await signJwt(validClaims(), { alg: 'ES256', kid: 'key-1', key: privateKey });
+    expect(await verifyJwt(token, config, env)).toHaveProperty('claims');
+
+    const unknownKidToken = await signJwt(validClaims(), { alg: 'ES256', kid: 'key-2', key: privateKey });
+    expect(await verifyJwt(unknownKidToken, config, env)).toEqual({ error: 'No key to verify the token' });
+  });
+
+  it('rejects tampered tokens', async () => {
+    const [header, , signature] = (await signJwt(validClaims())).split('.');
+    const token = `${header}.${toBase64Url(JSON.stringify(validClaims({ sub: 'other-client' })))}.${signature}`;
+
+    expect(await verifyJwt(token, hs256Config, env)).toEqual({ error: 'Invalid token signature' });
+  });
+
+  it('rejects malformed tokens', async () => {
+    expect(await verifyJwt('a.b.c', hs256Config, env)).toEqual({ error: 'Malformed token' });
+  });
+
+  it('rejects unsigned tokens and algorithms that are not allowed', async () => {
+    const unsignedToken = `${toBase64Url(JSON.stringify({ alg: 'none' }))}.${toBase64Url(JSON.stringify(validClaims()))}.`;
+    expect(await verifyJwt(unsignedToken, hs256Config, env)).toEqual({ error: 'Token algorithm not allowed' });
+
+    const token = await signJwt(validClaims());
+    expect(await verifyJwt(token, { ...hs256Config, algorithms: ['RS256'] }, env)).toEqual({ error: 'Token algorithm not allowed' });
+  });
+
+  it('rejects HS256 keys outside of the JWT_ secrets', async () => {
+    const token = await signJwt(validClaims());
+
+    expect(await verifyJwt(token, { ...hs256Config, secret: 'UPSTREAM_SIGNING_KEY' }, env)).toEqual({
+      error: 'No key to verify the token',
+    });
+    expect(await verifyJwt(token, { ...hs256Config, secret: 'JWT_UNSET_KEY' }, env)).toEqual({ error: 'No key to verify the token' });
+  });
+
+  it('checks the issuer', async () => {
+    const token = await signJwt(validClaims({ iss: 'https://other.example.com' }));
+
+    expect(await verifyJwt(token, hs256Config, env)).toEqual({ error: 'Invalid token issuer' });
+  });
+
+  it('checks the audience when configured', async () => {
+    const config = { ...hs256Config, audience: ['gateway', 'api'] };
+
+    expect(await verifyJwt(await signJwt(validClaims({ aud: ['other', 'api'] })), config, env)).toHaveProperty('claims');
+    expect(await verifyJwt(await signJwt(validClaims({ aud: 'other' })), config, env)).toEqual({ error: 'Invalid token audience' });
+    expect(await verifyJwt(await signJwt(validClaims()), config, env)).toEqual({ error: 'Invalid token audience' });
+  });
+
+  it('requires an expiry, with the clock tolerance', async () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(await verifyJwt(await signJwt(validClaims({ exp: undefined })), hs256Config, env)).toEqual({ error: 'Token expired' });
+    expect(await verifyJwt(await signJwt(validClaims({ exp: now - 30 })), hs256Config, env)).toHaveProperty('claims');
+    expect(await verifyJwt(await signJwt(validClaims({ exp: now - 90 })), hs256Config, env)).toEqual({ error: 'Token expired' });
+    expect(await verifyJwt(await signJwt(validClaims({ exp: now - 90 })), { ...hs256Config, clockTolerance: 120 }, env)).toHaveProperty(
+      'claims'
+    );
+  });
+
+  it('rejects tokens not valid yet, with the clock tolerance', async () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(await verifyJwt(await signJwt(validClaims({ nbf: now + 30 })), hs256Config, env)).toHaveProperty('claims');
+    expect(await verifyJwt(await signJwt(validClaims({ nbf: now + 90 })), hs256Config, env)).toEqual({ error: 'Token not yet valid' });
+  });
+});
+
+describe('authenticateJwt', () => {
+  beforeAll(async () => {
+    const targetConfig: TargetConfig = {
+      id: 'jwt-target',
+      name: 'JWT target',
+      pattern: '/jwt-api/*',
+      isRegex: false,
+      targetUrl: 'https://upstream.example.com',
+      authMode: 'jwt',
+      jwt: { ...hs256Config, clientIdClaim: 'azp' },
+      costInfo: { cost: 1, description: 'One credit per request' },
+    };
+    await KV_TARGET.put(targetConfig.id, targetConfig, env);
+  });
+
+  it('maps the client ID claim to a gateway client of the matching target', async () => {
+    const token = await signJwt(validClaims({ azp: 'idp-client' }));
+
+    expect(await authenticateJwt(token, '/jwt-api/items', env)).toEqual({
+      apiKeyConfig: { keyId: 'jwt:client-1', clientId: 'client-1', active: true, expiresAt: null, targetIds: ['jwt-target'] },
+    });
+  });
+
+  it('rejects clients missing from the target mapping', async () => {
+    for (const azp of ['other-client', 'constructor']) {
+      const token = await signJwt(validClaims({ azp }));
+      expect(await authenticateJwt(token, '/jwt-api/items', env)).toEqual({ status: 403, error: 'Token client not allowed' });
+    }
+  });
+
+  it('rejects tokens without the client ID claim', async () => {
+    const token = await signJwt(validClaims());
+
+    expect(await authenticateJwt(token, '/jwt-api/items', env)).toEqual({ status: 403, error: 'Token has no client ID claim' });
+  });
+
+  it('rejects tokens on paths without a JWT target', async () => {
+    const token = await signJwt(validClaims({ azp: 'idp-client' }));
+
+    expect(await authenticateJwt(token, '/other-api/items', env)).toEqual({ status: 401, error: 'Token not accepted for this path' });
+  });
+});
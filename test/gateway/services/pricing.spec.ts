@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { readMeteredCost, resolvePrice } from '@/gateway/services/pricing';
+import type { MeteringConfig, TargetConfig } from '@/shared/types';
+
+/**
+ * Build a JSON upstream response, sized unless a Content-Length is given
+ */
+function jsonResponse(body: unknown, headers: Record<string, string> = {}): Response {
+  const text = JSON.stringify(body);
+  return new Response(text, {
+    headers: { 'Content-Type': 'application/json', 'Content-Length': String(new TextEncoder().encode(text).length), ...headers },
+  });
+}
+
+describe('readMeteredCost', () => {
+  const headerMetering: MeteringConfig = { header: 'X-Upstream-Cost', maxCost: 10 };
+  const jsonMetering: MeteringConfig = { jsonField: 'usage.total_tokens', maxCost: 10 };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reads the cost from a header', async () => {
+    const response = new Response(null, { headers: { 'X-Upstream-Cost': ' 2.5 ' } });
+
+    expect(await readMeteredCost(response, headerMetering)).toBe(2.5);
+  });
+
+  it('treats blank, negative or non-numeric cost headers as missing', async () => {
+    for (const value of ['', '   ', '-1', 'free', 'Infinity']) {
+      const response = new Response(null, { headers: { 'X-Upstream-Cost': value } });
+      expect(await readMeteredCost(response, headerMetering)).toBeNull();
+    }
+  });
+
+  it('reads the cost from a JSON body field and leaves the body readable', async () => {
+    const response = jsonResponse({ usage: { total_tokens: 7 } });
+
+    expect(await readMeteredCost(response, jsonMetering)).toBe(7);
+    expect(await response.json()).toEqual({ usage: { total_tokens: 7 } });
+  });
+
+  it('accepts +json content types', async () => {
+    const response = jsonResponse({ usage: { total_tokens: 7 } }, { 'Content-Type': 'application/vnd.api+json; charset=utf-8' });
+
+    expect(await readMeteredCost(response, jsonMetering)).toBe(7);
+  });
+
+  it('never reads unsized, oversized or non-JSON bodies', async () => {
+    const unsized = new Response(JSON.stringify({ usage: { total_tokens: 7 } }), { headers: { 'Content-Type': 'application/json' } });
+    const oversized = jsonResponse({ usage: { total_tokens: 7 } }, { 'Content-Length': String(2 * 1024 * 1024) });
+    const text = jsonResponse({ usage: { total_tokens: 7 } }, { 'Content-Type': 'text/plain' });
+
+    for (const response of [unsized, oversized, text]) {
+      expect(await readMeteredCost(response, jsonMetering)).toBeNull();
+    }
+  });
+
+  it('returns null for missing or invalid fields', async () => {
+    expect(await readMeteredCost(jsonResponse({ usage: {} }), jsonMetering)).toBeNull();
+    expect(await readMeteredCost(jsonResponse({ usage: { total_tokens: '7' } }), jsonMetering)).toBeNull();
+    expect(await readMeteredCost(jsonResponse({ usage: { total_tokens: -1 } }), jsonMetering)).toBeNull();
+  });
+
+  it('prefers the header over the body', async () => {
+    const response = jsonResponse({ usage: { total_tokens: 7 } }, { 'X-Upstream-Cost': '3' });
+
+    expect(await readMeteredCost(response, { ...headerMetering, ...jsonMetering })).toBe(3);
+  });
+});
+
+describe('resolvePrice', () => {
+  const targetConfig = {
+    id: 'items',
+    costInfo: {
+      cost: 1,
+      description: 'One credit per request',
+      rules: [
+        { name: 'search', path: '/search', methods: ['GET'], cost: 2 },
+        { name: 'chat', path: '/chat/*', cost: 5, metering: { header: 'X-Upstream-Cost', maxCost: 20 } },
+      ],
+    },
+  } as TargetConfig;
+
+  it('applies the first matching rule', () => {
+    expect(resolvePrice(targetConfig, 'GET', '/search')).toEqual({ rule: 'search', reserve: 2, cost: 2 });
+    expect(resolvePrice(targetConfig, 'POST', '/search')).toEqual({ rule: 'default', reserve: 1, cost: 1 });
+  });
+
+  it('reserves the maximum cost of metered rules', () => {
+    expect(resolvePrice(targetConfig, 'POST', '/chat/completions')).toEqual({
+      rule: 'chat',
+      reserve: 20,
+      cost: 5,
+      metering: { header: 'X-Upstream-Cost', maxCost: 20 },
+    });
+  });
+});
@@ -0,0 +1,11 @@
+// Stand-in for the cloudflare:workers module when running the tests under Node
+
+/**
+ * Base class of the Durable Objects, holding their state and environment like the runtime one
+ */
+export class DurableObject<E = unknown> {
+  constructor(
+    protected ctx: DurableObjectState,
+    protected env: E
+  ) {}
+}
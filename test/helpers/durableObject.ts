@@ -0,0 +1,91 @@
+// In-memory Durable Object state, covering the storage operations the Durable Objects use
+
+export interface TestDurableObjectState {
+  state: DurableObjectState;
+  // Scheduled alarm time, null if none
+  alarm: () => number | null;
+  // Settle the promises passed to waitUntil
+  flush: () => Promise<void>;
+}
+
+/**
+ * Create the state of a Durable Object, with transactional storage kept in a sorted map
+ */
+export function createDurableObjectState(): TestDurableObjectState {
+  const entries = new Map<string, unknown>();
+  const pending: Promise<unknown>[] = [];
+  let alarm: number | null = null;
+
+  const storage = {
+    async get(keys: string | string[]) {
+      if (Array.isArray(keys)) {
+        return new Map(keys.filter((key) => entries.has(key)).map((key) => [key, structuredClone(entries.get(key))]));
+      }
+      return structuredClone(entries.get(keys));
+    },
+    async put(keyOrEntries: string | Record<string, unknown>, value?: unknown) {
+      const values = typeof keyOrEntries === 'string' ? { [keyOrEntries]: value } : keyOrEntries;
+      for (const [key, entry] of Object.entries(values)) {
+        entries.set(key, structuredClone(entry));
+      }
+    },
+    async delete(keys: string | string[]) {
+      if (Array.isArray(keys)) {
+        return keys.filter((key) => entries.delete(key)).length;
+      }
+      return entries.delete(keys);
+    },
+    async list(options: DurableObjectListOptions = {}) {
+      let keys = [...entries.keys()]
+        .sort()
+        .filter(
+          (key) =>
+            (options.prefix === undefined || key.startsWith(options.prefix)) &&
+            (options.start === undefined || key >= options.start) &&
+            (options.end === undefined || key < options.end)
+        );
+      if (options.reverse) {
+        keys = keys.reverse();
+      }
+      if (options.limit !== undefined) {
+        keys = keys.slice(0, options.limit);
+      }
+      return new Map(keys.map((key) => [key, structuredClone(entries.get(key))]));
+    },
+    async getAlarm() {
+      return alarm;
+    },
+    async setAlarm(scheduledTime: number | Date) {
+      alarm = typeof scheduledTime === 'number' ? scheduledTime : scheduledTime.getTime();
+    },
+    async deleteAlarm() {
+      alarm = null;
+    },
+  };
+
+  const state = {
+    storage,
+    blockConcurrencyWhile: <T>(callback: () => Promise<T>) => callback(),
+    waitUntil: (promise: Promise<unknown>) => {
+      pending.push(promise);
+    },
+  } as unknown as DurableObjectState;
+
+  return {
+    state,
+    alarm: () => alarm,
+    flush: async () => {
+      await Promise.all(pending.splice(0));
+    },
+  };
+}
+
+/**
+ * Create a Durable Object namespace handing out the same stub for every name
+ */
+export function createDurableObjectNamespace<T>(stub: T): DurableObjectNamespace {
+  return {
+    idFromName: (name: string) => ({ name }),
+    get: () => stub,
+  } as unknown as DurableObjectNamespace;
+}
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CreditLedger } from '@/shared/durable/creditLedger';
+
+import { createDurableObjectNamespace, createDurableObjectState, type TestDurableObjectState } from '../../helpers/durableObject';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('CreditLedger', () => {
+  let state: TestDurableObjectState;
+  let dispatch: ReturnType<typeof vi.fn>;
+  let ledger: CreditLedger;
+  let clientId: string;
+
+  beforeEach(async () => {
+    // Transactions are listed by creation time, so tests move the clock between the ones they read back
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    state = createDurableObjectState();
+    dispatch = vi.fn(async () => []);
+    const env = {
+      STORAGE_BACKEND: 'memory',
+      ENVIRONMENT: 'development',
+      WEBHOOK_DISPATCHER: createDurableObjectNamespace({ dispatch }),
+    } as unknown as Env;
+
+    ledger = new CreditLedger(state.state, env);
+    // Each test gets its own client, the memory storage backend is shared by the module
+    clientId = `client-${crypto.randomUUID()}`;
+    await ledger.setBalance(clientId, 100);
+    vi.advanceTimersByTime(1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('reserve', () => {
+    it('holds the amount and records the debit', async () => {
+      const result = await ledger.reserve(clientId, 'r1', 30, { requestId: 'req-1' });
+
+      expect(result).toEqual({ success: true, remaining: 70, used: 30, reservationId: 'r1' });
+      expect(await ledger.getBalance(clientId)).toBe(70);
+      const { transactions } = await ledger.listTransactions({ limit: 1 });
+      expect(transactions[0]).toMatchObject({ type: 'debit', amount: -30, balance: 70, requestId: 'req-1' });
+    });
+
+    it('rejects amounts above the balance without changing it', async () => {
+      const result = await ledger.reserve(clientId, 'r1', 101);
+
+      expect(result).toEqual({ success: false, remaining: 100, used: 0 });
+      expect(await ledger.getBalance(clientId)).toBe(100);
+    });
+
+    it('schedules an alarm to sweep the hold', async () => {
+      await ledger.reserve(clientId, 'r1', 30);
+
+      expect(state.alarm()).toBe(Date.now() + 24 * HOUR_MS);
+    });
+  });
+
+  describe('settle', () => {
+    it('refunds the part of the hold above the final amount', async () => {
+      await ledger.reserve(clientId, 'r1', 30, { requestId: 'req-1' });
+      vi.advanceTimersByTime(1);
+      const result = await ledger.settle('r1', 12);
+
+      expect(result).toEqual({ success: true, remaining: 88, used: 12 });
+      const { transactions } = await ledger.listTransactions({ limit: 1 });
+      expect(transactions[0]).toMatchObject({ type: 'refund', amount: 18, balance: 88, requestId: 'req-1' });
+    });
+
+    it('never charges more than the hold', async () => {
+      await ledger.reserve(clientId, 'r1', 30);
+      const result = await ledger.settle('r1', 50);
+
+      expect(result).toEqual({ success: true, remaining: 70, used: 30 });
+    });
+
+    it('settles a hold only once', async () => {
+      await ledger.reserve(clientId, 'r1', 30);
+      await ledger.settle('r1', 10);
+      const result = await ledger.settle('r1', 10);
+
+      expect(result).toEqual({ success: true, remaining: 90, used: 0 });
+    });
+  });
+
+  describe('commit', () => {
+    it('reports the held amount and keeps the debit', async () => {
+      await ledger.reserve(clientId, 'r1', 30);
+      const result = await ledger.commit('r1');
+
+      expect(result).toEqual({ success: true, remaining: 70, used: 30 });
+      expect(await ledger.release('r1')).toEqual({ success: true, remaining: 70, used: 0 });
+    });
+  });
+
+  describe('release', () => {
+    it('refunds the whole hold', async () => {
+      await ledger.reserve(clientId, 'r1', 30);
+      vi.advanceTimersByTime(1);
+      const result = await ledger.release('r1');
+
+      expect(result).toEqual({ success: true, remaining: 100, used: 0 });
+      const { transactions } = await ledger.listTransactions({ limit: 1 });
+      expect(transactions[0]).toMatchObject({ type: 'refund', amount: 30, balance: 100 });
+    });
+
+    it('ignores unknown reservations', async () => {
+      expect(await ledger.release('unknown')).toEqual({ success: true, remaining: 100, used: 0 });
+    });
+  });
+
+  describe('hold expiry', () => {
+    it('still settles and releases holds of slow upstreams', async () => {
+      await ledger.reserve(clientId, 'r1', 30);
+      await ledger.reserve(clientId, 'r2', 20);
+      vi.advanceTimersByTime(HOUR_MS);
+      await ledger.alarm();
+
+      expect(await ledger.settle('r1', 10)).toEqual({ success: true, remaining: 70, used: 10 });
+      expect(await ledger.release('r2')).toEqual({ success: true, remaining: 90, used: 0 });
+    });
+
+    it('treats holds left unsettled past their expiry as committed', async () => {
+      await ledger.reserve(clientId, 'r1', 30);
+      vi.advanceTimersByTime(24 * HOUR_MS);
+      await ledger.alarm();
+
+      expect(await ledger.release('r1')).toEqual({ success: true, remaining: 70, used: 0 });
+      expect(await ledger.getBalance(clientId)).toBe(70);
+    });
+
+    it('wakes up for the next hold to expire', async () => {
+      await ledger.reserve(clientId, 'r1', 30);
+      vi.advanceTimersByTime(HOUR_MS);
+      await ledger.reserve(clientId, 'r2', 20);
+      vi.advanceTimersByTime(23 * HOUR_MS);
+      await ledger.alarm();
+
+      expect(state.alarm()).toBe(Date.now() + HOUR_MS);
+    });
+  });
+
+  describe('balance alerts', () => {
+    beforeEach(async () => {
+      await ledger.setBalanceAlerts(clientId, { lowThresholds: [50], depleted: true });
+    });
+
+    it('notifies a low balance once while requests go back and forth around the threshold', async () => {
+      await ledger.reserve(clientId, 'r1', 60);
+      await ledger.release('r1');
+      await ledger.reserve(clientId, 'r2', 60);
+      await state.flush();
+
+      expect(dispatch).toHaveBeenCalledTimes(1);
+      expect(dispatch).toHaveBeenCalledWith(clientId, 'credits.low', { threshold: 50, balance: 40 });
+    });
+
+    it('notifies a low balance again once credits are added back above the threshold', async () => {
+      await ledger.reserve(clientId, 'r1', 60);
+      await ledger.add(clientId, 30);
+      await ledger.reserve(clientId, 'r2', 30);
+      await state.flush();
+
+      expect(dispatch).toHaveBeenCalledTimes(2);
+      expect(dispatch).toHaveBeenLastCalledWith(clientId, 'credits.low', { threshold: 50, balance: 40 });
+    });
+
+    it('notifies a depleted balance once', async () => {
+      await ledger.reserve(clientId, 'r1', 100);
+      await ledger.release('r1');
+      await ledger.reserve(clientId, 'r2', 100);
+      await state.flush();
+
+      expect(dispatch.mock.calls.filter(([, event]) => event === 'credits.depleted')).toHaveLength(1);
+    });
+  });
+});
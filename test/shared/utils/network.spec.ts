@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+
+import { isIpInCidr, isValidCidr, isValidOriginPattern, matchesOriginPattern } from '@/shared/utils/network';
+
+describe('isIpInCidr', () => {
+  it('matches IPv4 addresses in a range', () => {
+    expect(isIpInCidr('203.0.113.7', '203.0.113.0/24')).toBe(true);
+    expect(isIpInCidr('203.0.114.7', '203.0.113.0/24')).toBe(false);
+  });
+
+  it('matches the address itself for ranges without prefix', () => {
+    expect(isIpInCidr('203.0.113.7', '203.0.113.7')).toBe(true);
+    expect(isIpInCidr('203.0.113.8', '203.0.113.7')).toBe(false);
+  });
+
+  it('matches every address for a zero prefix', () => {
+    expect(isIpInCidr('198.51.100.1', '0.0.0.0/0')).toBe(true);
+  });
+
+  it('matches IPv6 addresses in a range', () => {
+    expect(isIpInCidr('2001:db8::1', '2001:db8::/32')).toBe(true);
+    expect(isIpInCidr('2001:db9::1', '2001:db8::/32')).toBe(false);
+  });
+
+  it('reads IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(isIpInCidr('::ffff:203.0.113.7', '203.0.113.0/24')).toBe(true);
+  });
+
+  it('never matches across IP versions', () => {
+    expect(isIpInCidr('2001:db8::1', '0.0.0.0/0')).toBe(false);
+    expect(isIpInCidr('203.0.113.7', '::/0')).toBe(false);
+  });
+
+  it('never matches invalid addresses', () => {
+    expect(isIpInCidr('not-an-ip', '0.0.0.0/0')).toBe(false);
+    expect(isIpInCidr('203.0.113.256', '203.0.113.0/24')).toBe(false);
+  });
+});
+
+describe('isValidCidr', () => {
+  it('accepts addresses and ranges', () => {
+    expect(isValidCidr('203.0.113.0/24')).toBe(true);
+    expect(isValidCidr('203.0.113.7')).toBe(true);
+    expect(isValidCidr('2001:db8::/32')).toBe(true);
+  });
+
+  it('rejects prefixes too long for the IP version', () => {
+    expect(isValidCidr('203.0.113.0/33')).toBe(false);
+    expect(isValidCidr('2001:db8::/129')).toBe(false);
+  });
+
+  it('rejects malformed ranges', () => {
+    expect(isValidCidr('203.0.113.0/24/8')).toBe(false);
+    expect(isValidCidr('203.0.113.0/abc')).toBe(false);
+    expect(isValidCidr('example.com/24')).toBe(false);
+  });
+});
+
+describe('matchesOriginPattern', () => {
+  it('matches exact origins', () => {
+    expect(matchesOriginPattern('https://app.example.com', 'https://app.example.com')).toBe(true);
+    expect(matchesOriginPattern('http://app.example.com', 'https://app.example.com')).toBe(false);
+  });
+
+  it('matches subdomains with a wildcard', () => {
+    expect(matchesOriginPattern('https://app.example.com', 'https://*.example.com')).toBe(true);
+    expect(matchesOriginPattern('https://a.b.example.com', 'https://*.example.com')).toBe(true);
+    expect(matchesOriginPattern('https://example.com', 'https://*.example.com')).toBe(false);
+    expect(matchesOriginPattern('https://app.example.com.evil.com', 'https://*.example.com')).toBe(false);
+  });
+
+  it('matches both schemes for patterns without scheme', () => {
+    expect(matchesOriginPattern('https://app.example.com', 'app.example.com')).toBe(true);
+    expect(matchesOriginPattern('http://app.example.com', 'app.example.com')).toBe(true);
+  });
+
+  it('only matches the default port for patterns without port', () => {
+    expect(matchesOriginPattern('https://app.example.com:8443', 'https://app.example.com')).toBe(false);
+    expect(matchesOriginPattern('http://localhost:3000', 'http://localhost:*')).toBe(true);
+  });
+
+  it('does not treat dots as wildcards', () => {
+    expect(matchesOriginPattern('https://appxexample.com', 'https://app.example.com')).toBe(false);
+  });
+
+  it('ignores case', () => {
+    expect(matchesOriginPattern('https://APP.Example.com', 'https://app.example.com')).toBe(true);
+  });
+});
+
+describe('isValidOriginPattern', () => {
+  it('accepts origins and host patterns', () => {
+    expect(isValidOriginPattern('https://app.example.com')).toBe(true);
+    expect(isValidOriginPattern('https://*.example.com')).toBe(true);
+    expect(isValidOriginPattern('*.example.com')).toBe(true);
+    expect(isValidOriginPattern('http://localhost:*')).toBe(true);
+  });
+
+  it('rejects paths and wildcards inside host labels', () => {
+    expect(isValidOriginPattern('https://app.example.com/path')).toBe(false);
+    expect(isValidOriginPattern('https://app*.example.com')).toBe(false);
+  });
+});
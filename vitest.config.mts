@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url';
+
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+      // Runtime module of the Workers runtime, replaced by a minimal base class outside of it
+      'cloudflare:workers': fileURLToPath(new URL('./test/helpers/cloudflareWorkers.ts', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['test/**/*.spec.ts'],
+  },
+});
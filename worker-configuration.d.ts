@@ -3,8 +3,19 @@
 declare namespace Cloudflare {
 	interface Env {
 		APIKI_KV: KVNamespace;
+		APIKI_DB?: D1Database;
+		AUDIT_LOG: DurableObjectNamespace<import("./src/gateway/index").AuditLog>;
+		CIRCUIT_BREAKER: DurableObjectNamespace<import("./src/gateway/index").CircuitBreaker>;
+		CREDIT_LEDGER: DurableObjectNamespace<import("./src/gateway/index").CreditLedger>;
+		QUOTA_TRACKER: DurableObjectNamespace<import("./src/gateway/index").QuotaTracker>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/gateway/index").RateLimiter>;
+		USAGE_TRACKER: DurableObjectNamespace<import("./src/gateway/index").UsageTracker>;
+		WEBHOOK_DISPATCHER: DurableObjectNamespace<import("./src/gateway/index").WebhookDispatcher>;
 		ADMIN_AUTH_KEY: string;
+		API_KEY_PEPPER: string;
 		ALLOWED_ORIGINS: string;
+		STORAGE_BACKEND: string;
+		ENVIRONMENT: string;
 	}
 }
 interface Env extends Cloudflare.Env {}